@@ -4,6 +4,7 @@ import { TooltipProvider } from "./components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import Index from "./pages/Index";
+import Artist from "./pages/Artist";
 import NotFound from "./pages/NotFound";
 import { SpotifyPlayer } from "./components/SpotifyPlayer";
 
@@ -12,7 +13,6 @@ const queryClient = new QueryClient();
 // Dedicated callback component that ensures the SpotifyPlayer is mounted
 const SpotifyCallback = () => {
   console.log('Rendering SpotifyCallback component');
-  console.log('Current URL:', window.location.href);
   
   // Check for code parameter in search (query parameters) instead of hash
   if (!window.location.search || !window.location.search.includes('code=')) {
@@ -41,6 +41,7 @@ const App = () => (
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/callback" element={<SpotifyCallback />} />
+          <Route path="/artist/:id" element={<Artist />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
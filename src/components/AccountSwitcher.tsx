@@ -0,0 +1,66 @@
+import { Check, UserPlus } from 'lucide-react';
+import { spotifyService } from '../integrations/spotify';
+import type { SpotifyAccount } from '../integrations/accounts';
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu';
+
+interface AccountSwitcherProps {
+  activeAccountId: string | null;
+  onSwitch: (accountId: string) => void;
+}
+
+const AccountAvatar = ({ account, className }: { account: SpotifyAccount; className?: string }) => (
+  <Avatar className={className}>
+    {account.avatarUrl && <AvatarImage src={account.avatarUrl} alt={account.displayName} />}
+    <AvatarFallback className="bg-brass text-wood-dark text-xs font-semibold">
+      {account.displayName.charAt(0).toUpperCase()}
+    </AvatarFallback>
+  </Avatar>
+);
+
+// Profile menu for the shared listening-room machine: shows who is signed in
+// and lets anyone swap to their own account without logging the others out
+export function AccountSwitcher({ activeAccountId, onSwitch }: AccountSwitcherProps) {
+  const accounts = spotifyService.getAccounts();
+  const activeAccount = accounts.find(account => account.id === activeAccountId);
+
+  if (!activeAccount) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        className="flex items-center gap-2 rounded-full bg-amber-800/30 py-1 pl-1 pr-3 text-amber-400 hover:text-amber-300"
+        aria-label="Switch Spotify account"
+      >
+        <AccountAvatar account={activeAccount} className="h-7 w-7" />
+        <span className="max-w-[10rem] truncate text-sm font-medium">{activeAccount.displayName}</span>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Spotify accounts</DropdownMenuLabel>
+        {accounts.map(account => (
+          <DropdownMenuItem
+            key={account.id}
+            onSelect={() => onSwitch(account.id)}
+            className="flex items-center gap-2"
+          >
+            <AccountAvatar account={account} className="h-6 w-6" />
+            <span className="flex-1 truncate">{account.displayName}</span>
+            {account.id === activeAccountId && <Check className="h-4 w-4" aria-label="Active account" />}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => spotifyService.addAccount()} className="flex items-center gap-2">
+          <UserPlus className="h-4 w-4" aria-hidden="true" />
+          <span>Add account</span>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { ListPlus, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { NoPlaybackDeviceError, spotifyService } from '../integrations/spotify';
+
+interface AddToQueueButtonProps {
+  uri: string;
+  // Track or episode name, for the label and confirmation
+  name: string;
+  className?: string;
+}
+
+// "Add to queue" action for any track or episode row in the app
+export function AddToQueueButton({ uri, name, className = '' }: AddToQueueButtonProps) {
+  const [isAdding, setIsAdding] = useState(false);
+
+  const handleClick = async (event: React.MouseEvent) => {
+    // Rows are often clickable themselves (play on click)
+    event.stopPropagation();
+    if (isAdding) return;
+
+    setIsAdding(true);
+    try {
+      await spotifyService.addToQueue(uri);
+      toast.success(`Added "${name}" to the queue`);
+    } catch (err) {
+      toast.error(
+        err instanceof NoPlaybackDeviceError
+          ? 'Start playing something first, then add to the queue'
+          : `Could not add "${name}" to the queue`
+      );
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={isAdding}
+      className={`rounded-full p-1.5 text-brass-dark hover:bg-brass/10 hover:text-brass disabled:opacity-50 ${className}`}
+      aria-label={`Add ${name} to queue`}
+      title="Add to queue"
+    >
+      {isAdding ? (
+        <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+      ) : (
+        <ListPlus className="h-4 w-4" aria-hidden="true" />
+      )}
+    </button>
+  );
+}
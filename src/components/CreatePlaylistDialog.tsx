@@ -0,0 +1,48 @@
+import { toast } from 'sonner';
+import { MissingScopeError, spotifyService } from '../integrations/spotify';
+import type { SpotifyPlaylist } from '../integrations/spotify-models';
+import { PlaylistDetailsForm, type PlaylistDetails } from './PlaylistDetailsForm';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+
+const EMPTY_PLAYLIST: PlaylistDetails = {
+  name: '',
+  description: '',
+  public: false,
+  collaborative: false
+};
+
+interface CreatePlaylistDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (playlist: SpotifyPlaylist) => void;
+}
+
+export function CreatePlaylistDialog({ open, onOpenChange, onCreated }: CreatePlaylistDialogProps) {
+  const handleCreate = async (details: PlaylistDetails) => {
+    try {
+      const playlist = await spotifyService.createPlaylist(details);
+      toast.success(`Created "${playlist.name}"`);
+      onCreated(playlist);
+    } catch (err) {
+      console.error('Error creating playlist:', err);
+      toast.error(
+        err instanceof MissingScopeError
+          ? 'Log out and back in to allow creating playlists from here'
+          : 'Could not create the playlist. Please try again.'
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New playlist</DialogTitle>
+          <DialogDescription>Add songs once it has been created.</DialogDescription>
+        </DialogHeader>
+        {/* Remount per opening so the form starts empty */}
+        {open && <PlaylistDetailsForm initial={EMPTY_PLAYLIST} submitLabel="Create" onSubmit={handleCreate} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { Check, Laptop, Loader2, MonitorSpeaker, Smartphone, Speaker, Tv } from 'lucide-react';
+import { spotifyService } from '../integrations/spotify';
+import type { SpotifyDevice } from '../integrations/spotify-models';
+import { useRemoteDevice } from '../hooks/use-remote-device';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu';
+
+function DeviceIcon({ type, className }: { type: string; className?: string }) {
+  switch (type.toLowerCase()) {
+    case 'computer':
+      return <Laptop className={className} aria-hidden="true" />;
+    case 'smartphone':
+    case 'tablet':
+      return <Smartphone className={className} aria-hidden="true" />;
+    case 'tv':
+    case 'castvideo':
+      return <Tv className={className} aria-hidden="true" />;
+    case 'speaker':
+    case 'castaudio':
+      return <Speaker className={className} aria-hidden="true" />;
+    default:
+      return <MonitorSpeaker className={className} aria-hidden="true" />;
+  }
+}
+
+// Spotify Connect picker: shows where the music is coming out and moves
+// playback between this turntable and the user's phone, speakers or TV
+export function DevicePicker() {
+  const remoteDevice = useRemoteDevice();
+  const [devices, setDevices] = useState<SpotifyDevice[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const localDeviceId = spotifyService.getDeviceId();
+
+  // The device list goes stale quickly, so fetch it every time the menu opens
+  const handleOpenChange = async (open: boolean) => {
+    if (!open) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      setDevices(await spotifyService.getDevices());
+    } catch (err) {
+      console.error('Failed to load Spotify devices:', err);
+      setError('Could not load your devices');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSelect = async (device: SpotifyDevice) => {
+    if (!device.id || device.is_active) return;
+
+    setError(null);
+    try {
+      await spotifyService.transferPlayback(device.id);
+    } catch (err) {
+      console.error('Failed to transfer playback:', err);
+      setError(`Could not switch to ${device.name}`);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <DropdownMenu onOpenChange={handleOpenChange}>
+        <DropdownMenuTrigger
+          className="flex items-center gap-2 rounded-full px-3 py-1 text-xs font-inter text-brass-dark/80 hover:bg-brass/10 hover:text-brass"
+          aria-label="Choose where to play"
+        >
+          {remoteDevice ? (
+            <>
+              <DeviceIcon type={remoteDevice.type} className="h-4 w-4 text-brass" />
+              <span>Playing on {remoteDevice.name}</span>
+            </>
+          ) : (
+            <>
+              <MonitorSpeaker className="h-4 w-4" aria-hidden="true" />
+              <span>{spotifyService.isRemoteControlOnly() ? 'Choose a device' : 'Playing on this turntable'}</span>
+            </>
+          )}
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="center" className="w-64">
+          <DropdownMenuLabel>Connect to a device</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {isLoading && devices.length === 0 ? (
+            <div className="flex justify-center py-3">
+              <Loader2 className="h-4 w-4 animate-spin" aria-label="Loading devices" />
+            </div>
+          ) : devices.length === 0 ? (
+            <p className="px-2 py-3 text-sm text-muted-foreground">
+              No devices found. Open Spotify on your phone or speaker to see it here.
+            </p>
+          ) : (
+            devices.map(device => (
+              <DropdownMenuItem
+                key={device.id ?? device.name}
+                disabled={!device.id || device.is_restricted}
+                onSelect={() => handleSelect(device)}
+                className="flex items-center gap-2"
+              >
+                <DeviceIcon type={device.type} className="h-4 w-4" />
+                <span className="flex-1 truncate">
+                  {device.id === localDeviceId ? 'This turntable' : device.name}
+                </span>
+                {device.is_active && <Check className="h-4 w-4" aria-label="Active device" />}
+              </DropdownMenuItem>
+            ))
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {error && (
+        <p className="text-xs text-red-500" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { KeyRound, Loader2, User } from 'lucide-react';
+import { MissingScopeError, spotifyService, type CuedRecord } from '../integrations/spotify';
+import {
+  pickImageUrl,
+  type SpotifyArtist,
+  type SpotifyPlayHistory,
+  type SpotifyTrack,
+  type TopTimeRange
+} from '../integrations/spotify-models';
+import { usePagedCollection } from '../hooks/use-paged-collection';
+import { useInfiniteScroll } from '../hooks/use-infinite-scroll';
+import { useRecordActions } from '../hooks/use-record-actions';
+import { RecordRow } from './RecordRow';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+
+const TIME_RANGE_LABELS: Record<TopTimeRange, string> = {
+  short_term: 'Last 4 weeks',
+  medium_term: 'Last 6 months',
+  long_term: 'All time'
+};
+
+const relativeTime = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' });
+
+// "5 minutes ago", "yesterday", ...
+function formatPlayedAt(playedAt: string): string {
+  const minutes = Math.round((new Date(playedAt).getTime() - Date.now()) / 60000);
+  if (minutes > -60) return relativeTime.format(minutes, 'minute');
+  const hours = Math.round(minutes / 60);
+  if (hours > -24) return relativeTime.format(hours, 'hour');
+  return relativeTime.format(Math.round(hours / 24), 'day');
+}
+
+function trackRecord(track: SpotifyTrack, contextUri?: string): CuedRecord {
+  return {
+    uri: track.uri,
+    contextUri: contextUri ?? track.album.uri ?? undefined,
+    name: track.name,
+    subtitle: track.artists.map(artist => artist.name).join(', '),
+    imageUrl: pickImageUrl(track.album.images, 64)
+  };
+}
+
+// Shown in place of a section when the session predates its scope
+function ReconnectPrompt({ what }: { what: string }) {
+  return (
+    <div className="flex flex-col items-center gap-3 rounded-lg bg-wood-light/10 p-6 text-center">
+      <KeyRound className="h-6 w-6 text-brass" aria-hidden="true" />
+      <p className="text-sm text-brass-dark">
+        To see {what}, reconnect Spotify and allow access to your listening activity.
+      </p>
+      <button
+        onClick={() => spotifyService.login()}
+        className="rounded-full bg-brass px-4 py-1.5 text-sm font-semibold text-wood-dark hover:bg-brass-light"
+      >
+        Reconnect Spotify
+      </button>
+    </div>
+  );
+}
+
+interface RecentlyPlayedProps {
+  enabled: boolean;
+  accountKey: string;
+  onPlay: (record: CuedRecord) => void;
+  onCue: (record: CuedRecord) => void;
+}
+
+function RecentlyPlayed({ enabled, accountKey, onPlay, onCue }: RecentlyPlayedProps) {
+  const [plays, setPlays] = useState<SpotifyPlayHistory[] | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const controller = new AbortController();
+    setPlays(null);
+    setError(null);
+    spotifyService.getRecentlyPlayed(controller.signal)
+      .then(history => {
+        if (!controller.signal.aborted) setPlays(history);
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error('Error loading recently played:', err);
+        setError(err);
+      });
+
+    return () => controller.abort();
+  }, [enabled, accountKey]);
+
+  if (error instanceof MissingScopeError) {
+    return <ReconnectPrompt what="what you played recently" />;
+  }
+  if (error) {
+    return <p className="text-sm text-red-500" role="alert">Could not load your recent plays. Please try again.</p>;
+  }
+  if (!plays) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-brass" aria-label="Loading recent plays" />
+      </div>
+    );
+  }
+  if (plays.length === 0) {
+    return <p className="text-sm text-brass-dark">Nothing played yet. Put on a record!</p>;
+  }
+
+  return (
+    <ul>
+      {plays.map(play => {
+        const record = trackRecord(play.track, play.context?.uri);
+        return (
+          <RecordRow
+            key={play.played_at}
+            record={{ ...record, subtitle: `${record.subtitle} · ${formatPlayedAt(play.played_at)}` }}
+            queueable
+            onPlay={onPlay}
+            onCue={onCue}
+          />
+        );
+      })}
+    </ul>
+  );
+}
+
+interface TopItemsProps {
+  enabled: boolean;
+  accountKey: string;
+  timeRange: TopTimeRange;
+  onPlay: (record: CuedRecord) => void;
+  onCue: (record: CuedRecord) => void;
+}
+
+function TopTracks({ enabled, accountKey, timeRange, onPlay, onCue }: TopItemsProps) {
+  const createPages = useCallback(
+    (signal: AbortSignal) => spotifyService.iterateTopTracks(timeRange, signal),
+    [timeRange]
+  );
+  const tracks = usePagedCollection(createPages, enabled, `${accountKey}:${timeRange}`);
+  const sentinelRef = useInfiniteScroll<HTMLDivElement>(tracks.loadMore, tracks.hasMore && !tracks.isLoading && !tracks.error);
+
+  if (tracks.error instanceof MissingScopeError) {
+    return <ReconnectPrompt what="your top tracks" />;
+  }
+
+  return (
+    <div>
+      {tracks.error && (
+        <p className="text-sm text-red-500" role="alert">Could not load your top tracks. Please try again.</p>
+      )}
+      {tracks.total === 0 && (
+        <p className="text-sm text-brass-dark">Not enough listening yet to pick your top tracks.</p>
+      )}
+      <ol>
+        {tracks.items.map(track => (
+          <RecordRow key={track.uri} record={trackRecord(track)} queueable onPlay={onPlay} onCue={onCue} />
+        ))}
+      </ol>
+      {tracks.isLoading && (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-brass" aria-label="Loading top tracks" />
+        </div>
+      )}
+      <div ref={sentinelRef} aria-hidden="true" />
+    </div>
+  );
+}
+
+function TopArtists({ enabled, accountKey, timeRange }: Omit<TopItemsProps, 'onPlay' | 'onCue'>) {
+  const createPages = useCallback(
+    (signal: AbortSignal) => spotifyService.iterateTopArtists(timeRange, signal),
+    [timeRange]
+  );
+  const artists = usePagedCollection<SpotifyArtist>(createPages, enabled, `${accountKey}:${timeRange}`);
+  const sentinelRef = useInfiniteScroll<HTMLDivElement>(artists.loadMore, artists.hasMore && !artists.isLoading && !artists.error);
+
+  if (artists.error instanceof MissingScopeError) {
+    return <ReconnectPrompt what="your top artists" />;
+  }
+
+  return (
+    <div>
+      {artists.error && (
+        <p className="text-sm text-red-500" role="alert">Could not load your top artists. Please try again.</p>
+      )}
+      {artists.total === 0 && (
+        <p className="text-sm text-brass-dark">Not enough listening yet to pick your top artists.</p>
+      )}
+      <ol className="grid grid-cols-3 gap-4 sm:grid-cols-4 md:grid-cols-5">
+        {artists.items.map((artist, index) => {
+          const imageUrl = pickImageUrl(artist.images, 160);
+          return (
+            <li key={artist.id}>
+              <Link to={`/artist/${artist.id}`} className="group block text-center">
+                {imageUrl ? (
+                  <img
+                    src={imageUrl}
+                    alt=""
+                    loading="lazy"
+                    className="aspect-square w-full rounded-full object-cover shadow transition-transform group-hover:scale-105"
+                  />
+                ) : (
+                  <div className="flex aspect-square w-full items-center justify-center rounded-full bg-wood-light/30">
+                    <User className="h-8 w-8 text-brass-dark" aria-hidden="true" />
+                  </div>
+                )}
+                <p className="mt-2 truncate text-sm text-brass group-hover:underline">
+                  <span className="text-brass-dark">{index + 1}.</span> {artist.name}
+                </p>
+              </Link>
+            </li>
+          );
+        })}
+      </ol>
+      {artists.isLoading && (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-brass" aria-label="Loading top artists" />
+        </div>
+      )}
+      <div ref={sentinelRef} aria-hidden="true" />
+    </div>
+  );
+}
+
+interface ListeningHistoryProps {
+  enabled: boolean;
+  // Start over when a different account becomes active
+  accountKey: string;
+}
+
+// What the user has been listening to: their last plays and their most
+// played tracks and artists over a chosen time range
+export function ListeningHistory({ enabled, accountKey }: ListeningHistoryProps) {
+  const [topType, setTopType] = useState<'tracks' | 'artists'>('tracks');
+  const [timeRange, setTimeRange] = useState<TopTimeRange>('short_term');
+  const { play, cue } = useRecordActions();
+
+  return (
+    <div className="grid grid-cols-1 gap-8">
+      <section>
+        <h3 className="mb-3 font-playfair text-xl text-brass">Recently Played</h3>
+        <RecentlyPlayed enabled={enabled} accountKey={accountKey} onPlay={play} onCue={cue} />
+      </section>
+
+      <section>
+        <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+          <h3 className="font-playfair text-xl text-brass">Your Top {topType === 'tracks' ? 'Tracks' : 'Artists'}</h3>
+          <div className="inline-flex rounded-full bg-wood-light/20 p-1" role="radiogroup" aria-label="Time range">
+            {(Object.keys(TIME_RANGE_LABELS) as TopTimeRange[]).map(range => (
+              <button
+                key={range}
+                role="radio"
+                aria-checked={timeRange === range}
+                onClick={() => setTimeRange(range)}
+                className={`rounded-full px-3 py-1 text-xs font-medium transition-colors ${
+                  timeRange === range ? 'bg-brass text-wood-dark' : 'text-brass-dark hover:text-brass'
+                }`}
+              >
+                {TIME_RANGE_LABELS[range]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <Tabs value={topType} onValueChange={value => setTopType(value as 'tracks' | 'artists')}>
+          <TabsList className="bg-wood-light/20">
+            <TabsTrigger value="tracks">Tracks</TabsTrigger>
+            <TabsTrigger value="artists">Artists</TabsTrigger>
+          </TabsList>
+          <TabsContent value="tracks">
+            <TopTracks enabled={enabled} accountKey={accountKey} timeRange={timeRange} onPlay={play} onCue={cue} />
+          </TabsContent>
+          <TabsContent value="artists">
+            {topType === 'artists' && (
+              <TopArtists enabled={enabled} accountKey={accountKey} timeRange={timeRange} />
+            )}
+          </TabsContent>
+        </Tabs>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useState, type DragEvent } from 'react';
+import { FolderOpen, Loader2, Upload } from 'lucide-react';
+import { localFilesSource, NoAudioFilesError, type ScanProgress } from '../integrations/local-files/local-files-source';
+import { entriesFromDataTransfer } from '../integrations/local-files/local-library';
+import { SourceCollectionGrid } from './SourceCollectionGrid';
+
+interface Scan {
+  done: number;
+  total: number;
+}
+
+function isPickerCancelled(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// Opens a folder of audio files from this computer, by folder picker where
+// the browser has one or by dropping it onto the panel, and lists its albums
+export function LocalFilesPanel() {
+  const [isConnected, setIsConnected] = useState(() => localFilesSource.isConnected());
+  const [scan, setScan] = useState<Scan | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => localFilesSource.on('library', () => setIsConnected(localFilesSource.isConnected())), []);
+
+  const openWith = async (open: (onProgress: ScanProgress) => Promise<void>) => {
+    setError(null);
+    setScan({ done: 0, total: 0 });
+    try {
+      await open((done, total) => setScan({ done, total }));
+    } catch (err) {
+      if (isPickerCancelled(err)) return;
+      console.error('Error opening music folder:', err);
+      setError(
+        err instanceof NoAudioFilesError
+          ? 'No audio files were found there. Pick a folder with MP3, FLAC, Ogg or M4A files.'
+          : 'Could not open that folder. Please try again.'
+      );
+    } finally {
+      setScan(null);
+    }
+  };
+
+  const handlePickFolder = () => openWith(onProgress => localFilesSource.connect(onProgress));
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    // Entries must be taken before the handler returns
+    const entries = entriesFromDataTransfer(event.dataTransfer);
+    if (entries.length > 0) {
+      openWith(onProgress => localFilesSource.openDropped(entries, onProgress));
+    }
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(true);
+  };
+
+  if (scan) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-2 p-10 text-center text-brass-dark" role="status">
+        <Loader2 className="h-8 w-8 animate-spin text-brass" aria-hidden="true" />
+        <p className="text-sm">
+          {scan.total > 0 ? `Reading tags (${scan.done} of ${scan.total} files)` : 'Looking for music…'}
+        </p>
+      </div>
+    );
+  }
+
+  const dropZone = (
+    <div
+      onDrop={handleDrop}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      className={`rounded-lg border-2 border-dashed p-6 text-center transition-colors ${
+        isDragging ? 'border-brass bg-brass/10' : 'border-brass/30'
+      }`}
+    >
+      <Upload className="mx-auto mb-2 h-6 w-6 text-brass" aria-hidden="true" />
+      <p className="text-sm text-brass-dark">Drop a music folder here</p>
+    </div>
+  );
+
+  if (!isConnected) {
+    return (
+      <div className="flex flex-col items-center justify-center p-10 text-center">
+        <h3 className="text-2xl font-semibold text-brass mb-2">Play Your Own Records</h3>
+        <p className="text-brass-dark mb-6 max-w-md">
+          Open a folder of music on this computer. Albums are read from the files' tags and cover art,
+          and nothing leaves your browser.
+        </p>
+        {localFilesSource.canPickFolder() && (
+          <button
+            onClick={handlePickFolder}
+            className="mb-6 px-6 py-3 bg-brass text-wood-dark rounded-full hover:bg-brass-light transition-colors flex items-center gap-2"
+          >
+            <FolderOpen className="w-5 h-5" aria-hidden="true" />
+            <span>Choose a folder</span>
+          </button>
+        )}
+        <div className="w-full max-w-md">{dropZone}</div>
+        {error && <p className="mt-4 text-sm text-red-500" role="alert">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-brass">Your Vinyl Collection</h2>
+          <p className="text-sm text-brass-dark">From this computer · pick the folder again after reloading</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {localFilesSource.canPickFolder() && (
+            <button
+              onClick={handlePickFolder}
+              className="flex items-center gap-1 bg-brass/10 text-brass hover:bg-brass/20 py-1.5 px-3 rounded-md font-medium"
+            >
+              <FolderOpen className="w-4 h-4" aria-hidden="true" />
+              <span>Choose another folder</span>
+            </button>
+          )}
+          <button
+            onClick={() => localFilesSource.disconnect()}
+            className="bg-amber-800/30 text-amber-400 hover:text-amber-300 py-1.5 px-3 rounded-md font-medium"
+          >
+            Forget
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mb-6 text-sm text-red-500" role="alert">{error}</p>}
+
+      <div className="mb-6">{dropZone}</div>
+
+      <SourceCollectionGrid source={localFilesSource} emptyMessage="No albums were found in that folder." />
+    </div>
+  );
+}
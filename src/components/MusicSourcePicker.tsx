@@ -0,0 +1,27 @@
+import { musicSources } from '../integrations/music-sources';
+import { useMusicSource } from '../hooks/use-music-source';
+
+// Where the turntable plays from. Switching pauses whatever was playing.
+export function MusicSourcePicker() {
+  const active = useMusicSource();
+
+  return (
+    <div className="flex justify-center">
+      <div className="inline-flex rounded-full bg-wood-light/20 p-1" role="radiogroup" aria-label="Music source">
+        {musicSources.list().map(source => (
+          <button
+            key={source.id}
+            role="radio"
+            aria-checked={active.id === source.id}
+            onClick={() => musicSources.setActive(source.id)}
+            className={`rounded-full px-4 py-1.5 text-sm font-medium transition-colors ${
+              active.id === source.id ? 'bg-brass text-wood-dark' : 'text-brass-dark hover:text-brass'
+            }`}
+          >
+            {source.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
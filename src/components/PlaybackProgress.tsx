@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { usePlaybackPosition } from '../hooks/use-playback-position';
+import { useMusicSource } from '../hooks/use-music-source';
+import { Slider } from './ui/slider';
+
+interface PlaybackProgressProps {
+  playbackState: Spotify.PlaybackState | null;
+}
+
+// m:ss, or h:mm:ss for long tracks
+function formatTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+// Elapsed/remaining time with a scrub bar that seeks the current track
+export function PlaybackProgress({ playbackState }: PlaybackProgressProps) {
+  const source = useMusicSource();
+  const { positionMs, durationMs } = usePlaybackPosition(playbackState);
+  // Position under the user's thumb while dragging; null when not scrubbing
+  const [scrubMs, setScrubMs] = useState<number | null>(null);
+
+  const canSeek = playbackState !== null && durationMs > 0 && !playbackState.disallows.seeking;
+  const shownMs = scrubMs ?? positionMs;
+
+  const handleCommit = async ([value]: number[]) => {
+    try {
+      await source.seek(value);
+    } catch (error) {
+      console.error('Error seeking:', error);
+      toast.error('Could not skip to that point in the track');
+    } finally {
+      setScrubMs(null);
+    }
+  };
+
+  return (
+    <div className="mt-4 mx-auto max-w-md">
+      <Slider
+        value={[shownMs]}
+        max={Math.max(durationMs, 1)}
+        step={1000}
+        disabled={!canSeek}
+        onValueChange={([value]) => setScrubMs(value)}
+        onValueCommit={handleCommit}
+        aria-label="Seek"
+      />
+      <div className="mt-2 flex justify-between font-inter text-xs text-brass-dark/80 tabular-nums">
+        <span>{formatTime(shownMs)}</span>
+        <span>-{formatTime(Math.max(0, durationMs - shownMs))}</span>
+      </div>
+    </div>
+  );
+}
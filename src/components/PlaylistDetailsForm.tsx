@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Textarea } from './ui/textarea';
+
+export interface PlaylistDetails {
+  name: string;
+  description: string;
+  public: boolean;
+  collaborative: boolean;
+}
+
+interface PlaylistDetailsFormProps {
+  initial: PlaylistDetails;
+  submitLabel: string;
+  onSubmit: (details: PlaylistDetails) => Promise<void>;
+}
+
+// Name, description and sharing settings, for new and existing playlists
+export function PlaylistDetailsForm({ initial, submitLabel, onSubmit }: PlaylistDetailsFormProps) {
+  const [details, setDetails] = useState(initial);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canSubmit = details.name.trim().length > 0 && !isSaving;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canSubmit) return;
+
+    setIsSaving(true);
+    try {
+      await onSubmit({ ...details, name: details.name.trim(), description: details.description.trim() });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-4">
+      <div className="grid gap-2">
+        <Label htmlFor="playlist-name">Name</Label>
+        <Input
+          id="playlist-name"
+          value={details.name}
+          maxLength={100}
+          onChange={event => setDetails({ ...details, name: event.target.value })}
+          required
+        />
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor="playlist-description">Description</Label>
+        <Textarea
+          id="playlist-description"
+          value={details.description}
+          maxLength={300}
+          rows={2}
+          onChange={event => setDetails({ ...details, description: event.target.value })}
+        />
+      </div>
+      <div className="flex flex-wrap gap-6">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="playlist-public"
+            checked={details.public}
+            // Spotify only allows collaboration on private playlists
+            onCheckedChange={checked => setDetails({ ...details, public: checked, collaborative: checked ? false : details.collaborative })}
+          />
+          <Label htmlFor="playlist-public">Public</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="playlist-collaborative"
+            checked={details.collaborative}
+            onCheckedChange={checked => setDetails({ ...details, collaborative: checked, public: checked ? false : details.public })}
+          />
+          <Label htmlFor="playlist-collaborative">Collaborative</Label>
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={!canSubmit}
+          className="inline-flex items-center gap-2 rounded-full bg-brass px-4 py-1.5 text-sm font-semibold text-wood-dark hover:bg-brass-light disabled:opacity-50"
+        >
+          {isSaving && <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />}
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,318 @@
+import { useEffect, useState } from 'react';
+import { GripVertical, Loader2, Music, Plus, Search, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { MissingScopeError, spotifyService } from '../integrations/spotify';
+import { PlaylistConflictError, type PlaylistEntry } from '../integrations/playlist-editor';
+import { describePlayableItem, type SpotifyTrack } from '../integrations/spotify-models';
+import { useDebouncedValue } from '../hooks/use-debounced-value';
+import { usePlaylistEditor } from '../hooks/use-playlist-editor';
+import { PlaylistDetailsForm, type PlaylistDetails } from './PlaylistDetailsForm';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+
+const SEARCH_DEBOUNCE_MS = 300;
+const SEARCH_LIMIT = 5;
+
+// Tell the user what went wrong with an edit. The editor has already put the
+// list back in step with Spotify.
+function reportEditError(error: unknown, action: string) {
+  if (error instanceof PlaylistConflictError) {
+    toast.warning(error.message);
+  } else if (error instanceof MissingScopeError) {
+    toast.error('Log out and back in to allow editing playlists from here');
+  } else {
+    console.error(`Error trying to ${action}:`, error);
+    toast.error(`Could not ${action}. Please try again.`);
+  }
+}
+
+interface TrackSearchProps {
+  onAdd: (track: SpotifyTrack) => Promise<void>;
+}
+
+// Find songs to add to the playlist
+function TrackSearch({ onAdd }: TrackSearchProps) {
+  const [query, setQuery] = useState('');
+  const debouncedQuery = useDebouncedValue(query.trim(), SEARCH_DEBOUNCE_MS);
+  const [results, setResults] = useState<SpotifyTrack[]>([]);
+
+  useEffect(() => {
+    setResults([]);
+    if (!debouncedQuery) return;
+
+    const controller = new AbortController();
+    spotifyService.search(debouncedQuery, ['track'], SEARCH_LIMIT, controller.signal)
+      .then(found => {
+        if (!controller.signal.aborted) setResults(found.tracks?.items ?? []);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) console.error('Search error:', err);
+      });
+
+    return () => controller.abort();
+  }, [debouncedQuery]);
+
+  return (
+    <div>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" aria-hidden="true" />
+        <Input
+          type="search"
+          value={query}
+          onChange={event => setQuery(event.target.value)}
+          placeholder="Add songs"
+          className="pl-9"
+          aria-label="Search for songs to add"
+        />
+      </div>
+      {results.length > 0 && (
+        <ul className="mt-2">
+          {results.map(track => (
+            <li key={track.uri} className="flex items-center gap-3 rounded-md p-1.5 hover:bg-muted">
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium">{track.name}</p>
+                <p className="truncate text-xs text-muted-foreground">
+                  {track.artists.map(artist => artist.name).join(', ')}
+                </p>
+              </div>
+              <button
+                onClick={() => onAdd(track)}
+                className="rounded-full p-1.5 hover:bg-brass/20"
+                aria-label={`Add ${track.name} to the playlist`}
+              >
+                <Plus className="h-4 w-4" aria-hidden="true" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface EntryRowProps {
+  entry: PlaylistEntry;
+  index: number;
+  isDragging: boolean;
+  isDropTarget: boolean;
+  onDragStart: (index: number) => void;
+  onDragOver: (index: number) => void;
+  onDrop: (index: number) => void;
+  onDragEnd: () => void;
+  onMove: (from: number, to: number) => void;
+  onRemove: (entry: PlaylistEntry) => void;
+}
+
+function EntryRow({
+  entry,
+  index,
+  isDragging,
+  isDropTarget,
+  onDragStart,
+  onDragOver,
+  onDrop,
+  onDragEnd,
+  onMove,
+  onRemove
+}: EntryRowProps) {
+  const track = entry.item.track;
+  const { imageUrl, subtitle } = track ? describePlayableItem(track) : { imageUrl: null, subtitle: '' };
+  const name = track?.name ?? 'Unavailable item';
+
+  return (
+    <li
+      draggable
+      onDragStart={event => {
+        event.dataTransfer.effectAllowed = 'move';
+        onDragStart(index);
+      }}
+      onDragOver={event => {
+        event.preventDefault();
+        onDragOver(index);
+      }}
+      onDrop={event => {
+        event.preventDefault();
+        onDrop(index);
+      }}
+      onDragEnd={onDragEnd}
+      className={`flex items-center gap-2 rounded-md p-1.5 ${isDragging ? 'opacity-40' : ''} ${
+        isDropTarget ? 'bg-brass/20' : 'hover:bg-muted'
+      }`}
+    >
+      {/* Drag handle; arrow keys move the row for keyboard users */}
+      <button
+        className="cursor-grab rounded p-1 text-muted-foreground active:cursor-grabbing"
+        aria-label={`Move ${name}. Use the up and down arrow keys to reorder.`}
+        onKeyDown={event => {
+          if (event.key === 'ArrowUp') {
+            event.preventDefault();
+            onMove(index, index - 1);
+          } else if (event.key === 'ArrowDown') {
+            event.preventDefault();
+            onMove(index, index + 1);
+          }
+        }}
+      >
+        <GripVertical className="h-4 w-4" aria-hidden="true" />
+      </button>
+      {imageUrl ? (
+        <img src={imageUrl} alt="" loading="lazy" className="h-10 w-10 shrink-0 rounded object-cover" />
+      ) : (
+        <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded bg-muted">
+          <Music className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+        </div>
+      )}
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-medium">{name}</p>
+        <p className="truncate text-xs text-muted-foreground">{subtitle}</p>
+      </div>
+      {track && (
+        <button
+          onClick={() => onRemove(entry)}
+          className="rounded-full p-1.5 text-muted-foreground hover:bg-red-500/10 hover:text-red-500"
+          aria-label={`Remove ${name} from the playlist`}
+        >
+          <Trash2 className="h-4 w-4" aria-hidden="true" />
+        </button>
+      )}
+    </li>
+  );
+}
+
+interface PlaylistEditorDialogProps {
+  // The playlist being edited; null when the dialog is closed
+  playlistId: string | null;
+  onClose: () => void;
+  // Called after any change is saved, so views of the library can refresh
+  onChanged: () => void;
+}
+
+// Edit a playlist's details and tracks. Tracks are reordered by dragging
+// them; every change is saved to Spotify as it is made.
+export function PlaylistEditorDialog({ playlistId, onClose, onChanged }: PlaylistEditorDialogProps) {
+  const { editor, state, error } = usePlaylistEditor(playlistId);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const run = async (action: string, edit: () => Promise<void>) => {
+    try {
+      await edit();
+      onChanged();
+    } catch (err) {
+      reportEditError(err, action);
+    }
+  };
+
+  const handleSaveDetails = (details: PlaylistDetails) =>
+    run('save the playlist details', async () => {
+      await editor?.updateDetails(details);
+      toast.success('Playlist details saved');
+    });
+
+  const handleAdd = (track: SpotifyTrack) =>
+    run(`add "${track.name}"`, async () => {
+      await editor?.addTracks([track.uri]);
+      toast.success(`Added "${track.name}"`);
+    });
+
+  const handleMove = (from: number, to: number) => {
+    run('move the song', async () => editor?.moveEntry(from, to));
+  };
+
+  const handleRemove = (entry: PlaylistEntry) => {
+    run('remove the song', async () => editor?.removeEntry(entry.key));
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) handleMove(dragIndex, index);
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <Dialog open={playlistId !== null} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="flex max-h-[90vh] max-w-2xl flex-col overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit playlist</DialogTitle>
+          <DialogDescription>
+            Changes are saved to Spotify as you make them. Drag songs to reorder them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <p className="text-sm text-red-500" role="alert">
+            {error instanceof MissingScopeError
+              ? 'Log out and back in to allow editing playlists from here.'
+              : 'Could not open this playlist. Please try again.'}
+          </p>
+        )}
+
+        {!state && !error && (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin" aria-label="Loading playlist" />
+          </div>
+        )}
+
+        {state && (
+          <>
+            <PlaylistDetailsForm
+              key={state.playlist.id}
+              initial={{
+                name: state.playlist.name,
+                description: state.playlist.description ?? '',
+                public: state.playlist.public ?? false,
+                collaborative: state.playlist.collaborative
+              }}
+              submitLabel="Save details"
+              onSubmit={handleSaveDetails}
+            />
+
+            <TrackSearch onAdd={handleAdd} />
+
+            <div>
+              <div className="mb-2 flex items-center justify-between">
+                <p className="text-sm font-semibold">
+                  {state.total} {state.total === 1 ? 'song' : 'songs'}
+                </p>
+                {state.isBusy && (
+                  <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <Loader2 className="h-3 w-3 animate-spin" aria-hidden="true" />
+                    Saving
+                  </span>
+                )}
+              </div>
+              <ul onDragLeave={() => setDropIndex(null)}>
+                {state.entries.map((entry, index) => (
+                  <EntryRow
+                    key={entry.key}
+                    entry={entry}
+                    index={index}
+                    isDragging={dragIndex === index}
+                    isDropTarget={dropIndex === index && dragIndex !== index}
+                    onDragStart={setDragIndex}
+                    onDragOver={setDropIndex}
+                    onDrop={handleDrop}
+                    onDragEnd={() => {
+                      setDragIndex(null);
+                      setDropIndex(null);
+                    }}
+                    onMove={handleMove}
+                    onRemove={handleRemove}
+                  />
+                ))}
+              </ul>
+              {state.hasMore && (
+                <button
+                  onClick={() => editor?.loadMore().catch(err => reportEditError(err, 'load more songs'))}
+                  className="mt-2 text-sm text-muted-foreground hover:text-foreground"
+                >
+                  Show more
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
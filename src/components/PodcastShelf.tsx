@@ -0,0 +1,211 @@
+import { useCallback, useState } from 'react';
+import { ArrowLeft, Disc3, Loader2, Mic, Play } from 'lucide-react';
+import { spotifyService, type CuedRecord } from '../integrations/spotify';
+import { pickImageUrl, type SpotifyEpisode, type SpotifyShow } from '../integrations/spotify-models';
+import { usePagedCollection } from '../hooks/use-paged-collection';
+import { useInfiniteScroll } from '../hooks/use-infinite-scroll';
+import { useRecordActions } from '../hooks/use-record-actions';
+import { AddToQueueButton } from './AddToQueueButton';
+
+const releaseDateFormat = new Intl.DateTimeFormat(undefined, { dateStyle: 'medium' });
+
+// "1 h 5 min" or "42 min"
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours} h ${minutes % 60} min` : `${minutes} min`;
+}
+
+function episodeRecord(episode: SpotifyEpisode, show: SpotifyShow, resumeMs: number | null): CuedRecord {
+  return {
+    uri: episode.uri,
+    name: episode.name,
+    subtitle: show.name,
+    imageUrl: pickImageUrl(episode.images, 64),
+    positionMs: resumeMs ?? undefined
+  };
+}
+
+interface EpisodeRowProps {
+  episode: SpotifyEpisode;
+  show: SpotifyShow;
+  onPlay: (record: CuedRecord) => void;
+  onCue: (record: CuedRecord) => void;
+}
+
+function EpisodeRow({ episode, show, onPlay, onCue }: EpisodeRowProps) {
+  const resumeMs = spotifyService.getResumePosition(episode);
+  const record = episodeRecord(episode, show, resumeMs);
+  const isFinished = episode.resume_point?.fully_played ?? false;
+
+  return (
+    <li className="rounded-md p-2 hover:bg-wood-light/20">
+      <div className="flex items-start gap-3">
+        {record.imageUrl && (
+          <img src={record.imageUrl} alt="" loading="lazy" className="h-14 w-14 shrink-0 rounded object-cover" />
+        )}
+        <div className="min-w-0 flex-1">
+          <p className="text-xs text-brass-dark">
+            {releaseDateFormat.format(new Date(episode.release_date))} · {formatDuration(episode.duration_ms)}
+            {isFinished && ' · Played'}
+          </p>
+          <p className="font-medium text-brass line-clamp-2">{episode.name}</p>
+          <p className="mt-1 text-sm text-brass-dark line-clamp-2">{episode.description}</p>
+          {resumeMs !== null && (
+            <div
+              className="mt-2 h-1 overflow-hidden rounded-full bg-wood-light/30"
+              role="progressbar"
+              aria-label="Listened"
+              aria-valuemin={0}
+              aria-valuemax={episode.duration_ms}
+              aria-valuenow={resumeMs}
+            >
+              <div className="h-full bg-brass" style={{ width: `${(resumeMs / episode.duration_ms) * 100}%` }} />
+            </div>
+          )}
+        </div>
+        <div className="flex shrink-0 items-center gap-1">
+          <button
+            onClick={() => onCue(record)}
+            className="rounded-full p-1.5 text-brass-dark hover:bg-brass/10 hover:text-brass"
+            aria-label={`Put ${episode.name} on the turntable`}
+            title="Put on the turntable"
+          >
+            <Disc3 className="h-4 w-4" aria-hidden="true" />
+          </button>
+          <AddToQueueButton uri={episode.uri} name={episode.name} />
+          <button
+            onClick={() => onPlay(record)}
+            className="rounded-full bg-brass p-1.5 text-wood-dark hover:bg-brass-light"
+            aria-label={resumeMs !== null ? `Resume ${episode.name}` : `Play ${episode.name}`}
+            title={resumeMs !== null ? 'Resume' : 'Play now'}
+          >
+            <Play className="h-4 w-4" aria-hidden="true" />
+          </button>
+        </div>
+      </div>
+    </li>
+  );
+}
+
+interface ShowEpisodesProps {
+  show: SpotifyShow;
+  onBack: () => void;
+}
+
+function ShowEpisodes({ show, onBack }: ShowEpisodesProps) {
+  const { play, cue } = useRecordActions();
+  const createPages = useCallback(
+    (signal: AbortSignal) => spotifyService.iterateShowEpisodes(show.id, signal),
+    [show.id]
+  );
+  const episodes = usePagedCollection(createPages, true, show.id);
+  const coverUrl = pickImageUrl(show.images, 160);
+  const sentinelRef = useInfiniteScroll<HTMLDivElement>(
+    episodes.loadMore,
+    episodes.hasMore && !episodes.isLoading && !episodes.error
+  );
+
+  return (
+    <div>
+      <button onClick={onBack} className="mb-4 inline-flex items-center gap-2 text-sm text-brass-dark hover:text-brass">
+        <ArrowLeft className="h-4 w-4" aria-hidden="true" />
+        All podcasts
+      </button>
+      <div className="mb-4 flex items-center gap-4">
+        {coverUrl && <img src={coverUrl} alt="" className="h-24 w-24 rounded-md object-cover shadow" />}
+        <div className="min-w-0">
+          <h3 className="font-playfair text-2xl text-brass">{show.name}</h3>
+          <p className="text-sm text-brass-dark">{show.publisher}</p>
+        </div>
+      </div>
+
+      {episodes.error && (
+        <p className="text-sm text-red-500" role="alert">Could not load the episodes. Please try again.</p>
+      )}
+      <ul>
+        {episodes.items.map(episode => (
+          <EpisodeRow key={episode.id} episode={episode} show={show} onPlay={play} onCue={cue} />
+        ))}
+      </ul>
+      {episodes.isLoading && (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-brass" aria-label="Loading episodes" />
+        </div>
+      )}
+      <div ref={sentinelRef} aria-hidden="true" />
+    </div>
+  );
+}
+
+interface PodcastShelfProps {
+  enabled: boolean;
+  // Start over when a different account becomes active
+  accountKey: string;
+}
+
+// The podcasts saved in the user's library. Picking one lists its episodes,
+// which play on the turntable from where the user left off.
+export function PodcastShelf({ enabled, accountKey }: PodcastShelfProps) {
+  const [selectedShow, setSelectedShow] = useState<SpotifyShow | null>(null);
+
+  const createPages = useCallback((signal: AbortSignal) => spotifyService.iterateSavedShows(signal), []);
+  const shows = usePagedCollection(createPages, enabled, accountKey);
+  const sentinelRef = useInfiniteScroll<HTMLDivElement>(
+    shows.loadMore,
+    shows.hasMore && !shows.isLoading && !shows.error && !selectedShow
+  );
+
+  if (selectedShow) {
+    return <ShowEpisodes show={selectedShow} onBack={() => setSelectedShow(null)} />;
+  }
+
+  return (
+    <div>
+      {shows.error && (
+        <p className="mb-4 text-sm text-red-500" role="alert">Could not load your podcasts. Please try again.</p>
+      )}
+
+      {shows.total === 0 && (
+        <div className="bg-wood-light/10 backdrop-blur-sm rounded-lg p-6 text-center">
+          <p className="text-brass-dark">
+            No saved podcasts yet. Follow shows in Spotify and they'll appear here.
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+        {shows.items.map(({ show }) => {
+          const coverUrl = pickImageUrl(show.images, 300);
+          return (
+            <button key={show.id} onClick={() => setSelectedShow(show)} className="group text-left">
+              <div className="aspect-square overflow-hidden rounded-md bg-wood-light/30 shadow-lg">
+                {coverUrl ? (
+                  <img
+                    src={coverUrl}
+                    alt=""
+                    loading="lazy"
+                    className="h-full w-full object-cover transition-transform group-hover:scale-105"
+                  />
+                ) : (
+                  <div className="flex h-full items-center justify-center">
+                    <Mic className="h-10 w-10 text-brass-dark" aria-hidden="true" />
+                  </div>
+                )}
+              </div>
+              <p className="mt-3 truncate font-semibold text-brass">{show.name}</p>
+              <p className="truncate text-sm text-brass-dark">{show.publisher}</p>
+            </button>
+          );
+        })}
+      </div>
+
+      <div ref={sentinelRef} className="h-1" aria-hidden="true" />
+      {shows.isLoading && (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-8 w-8 animate-spin text-brass" />
+        </div>
+      )}
+    </div>
+  );
+}
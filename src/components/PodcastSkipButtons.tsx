@@ -0,0 +1,46 @@
+import { RotateCcw, RotateCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { spotifyService } from '../integrations/spotify';
+import { usePlaybackPosition } from '../hooks/use-playback-position';
+
+const SKIP_BACK_MS = 15000;
+const SKIP_FORWARD_MS = 30000;
+
+interface PodcastSkipButtonsProps {
+  playbackState: Spotify.PlaybackState;
+}
+
+// Podcast-style jumps within the current episode
+export function PodcastSkipButtons({ playbackState }: PodcastSkipButtonsProps) {
+  const { positionMs, durationMs } = usePlaybackPosition(playbackState);
+  const canSeek = !playbackState.disallows.seeking;
+
+  const skipTo = (targetMs: number) => {
+    spotifyService
+      .seek(Math.max(0, Math.min(durationMs, targetMs)))
+      .catch(() => toast.error('Could not skip within the episode'));
+  };
+
+  return (
+    <div className="mt-3 flex justify-center gap-6">
+      <button
+        onClick={() => skipTo(positionMs - SKIP_BACK_MS)}
+        disabled={!canSeek}
+        className="relative p-2 rounded-full text-brass hover:bg-brass/10 transition-colors disabled:opacity-50"
+        aria-label="Back 15 seconds"
+      >
+        <RotateCcw className="w-7 h-7" aria-hidden="true" />
+        <span className="absolute inset-0 flex items-center justify-center text-[9px] font-bold" aria-hidden="true">15</span>
+      </button>
+      <button
+        onClick={() => skipTo(positionMs + SKIP_FORWARD_MS)}
+        disabled={!canSeek}
+        className="relative p-2 rounded-full text-brass hover:bg-brass/10 transition-colors disabled:opacity-50"
+        aria-label="Forward 30 seconds"
+      >
+        <RotateCw className="w-7 h-7" aria-hidden="true" />
+        <span className="absolute inset-0 flex items-center justify-center text-[9px] font-bold" aria-hidden="true">30</span>
+      </button>
+    </div>
+  );
+}
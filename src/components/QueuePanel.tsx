@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { ListMusic, Loader2, Music } from 'lucide-react';
+import { usePlayQueue } from '../hooks/use-play-queue';
+import { describePlayableItem, type SpotifyPlayableItem } from '../integrations/spotify-models';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger
+} from './ui/sheet';
+
+function QueueItem({ item }: { item: SpotifyPlayableItem }) {
+  const { imageUrl, subtitle } = describePlayableItem(item);
+
+  return (
+    <li className="flex items-center gap-3 py-2">
+      {imageUrl ? (
+        <img src={imageUrl} alt="" className="h-10 w-10 shrink-0 rounded object-cover" loading="lazy" />
+      ) : (
+        <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded bg-muted">
+          <Music className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+        </div>
+      )}
+      <div className="min-w-0">
+        <p className="truncate text-sm font-medium">{item.name}</p>
+        <p className="truncate text-xs text-muted-foreground">{subtitle}</p>
+      </div>
+    </li>
+  );
+}
+
+// Side panel with the current item and what Spotify will play next
+export function QueuePanel() {
+  const [open, setOpen] = useState(false);
+  // Only poll the queue while the panel is open
+  const { queue, isLoading, error } = usePlayQueue(open);
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger
+        className="flex items-center gap-2 rounded-full px-3 py-1 text-xs font-inter text-brass-dark/80 hover:bg-brass/10 hover:text-brass"
+        aria-label="Show queue"
+      >
+        <ListMusic className="h-4 w-4" aria-hidden="true" />
+        <span>Queue</span>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Queue</SheetTitle>
+          <SheetDescription>What's playing and what comes next</SheetDescription>
+        </SheetHeader>
+
+        {isLoading && !queue && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" aria-label="Loading queue" />
+          </div>
+        )}
+
+        {error && !queue && (
+          <p className="py-4 text-sm text-red-500" role="alert">
+            Could not load the queue. Please try again.
+          </p>
+        )}
+
+        {queue && (
+          <div className="mt-4 space-y-6">
+            <section>
+              <h3 className="text-sm font-semibold">Now playing</h3>
+              {queue.currently_playing ? (
+                <ul>
+                  <QueueItem item={queue.currently_playing} />
+                </ul>
+              ) : (
+                <p className="py-2 text-sm text-muted-foreground">Nothing is playing right now.</p>
+              )}
+            </section>
+
+            <section>
+              <h3 className="text-sm font-semibold">Next up</h3>
+              {queue.queue.length > 0 ? (
+                <ul className="divide-y">
+                  {queue.queue.map((item, index) => (
+                    // The same track can be queued more than once
+                    <QueueItem key={`${item.uri}-${index}`} item={item} />
+                  ))}
+                </ul>
+              ) : (
+                <p className="py-2 text-sm text-muted-foreground">Your queue is empty.</p>
+              )}
+            </section>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
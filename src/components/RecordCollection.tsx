@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Loader2, Play } from 'lucide-react';
+import { toast } from 'sonner';
+import { NoPlaybackDeviceError, spotifyService } from '../integrations/spotify';
+import { pickImageUrl, type SpotifySavedAlbum } from '../integrations/spotify-models';
+import { usePagedCollection } from '../hooks/use-paged-collection';
+import { useInfiniteScroll } from '../hooks/use-infinite-scroll';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+type RecordSort = 'added' | 'artist' | 'year';
+
+const SORT_LABELS: Record<RecordSort, string> = {
+  added: 'Recently added',
+  artist: 'Artist',
+  year: 'Release year'
+};
+
+// Leading "The " is ignored, as in any record shop's racks
+function artistSortKey(saved: SpotifySavedAlbum): string {
+  return (saved.album.artists[0]?.name ?? '').replace(/^the\s+/i, '').toLowerCase();
+}
+
+function sortRecords(records: SpotifySavedAlbum[], sort: RecordSort): SpotifySavedAlbum[] {
+  switch (sort) {
+    case 'added':
+      // The API already returns the newest saves first
+      return records;
+    case 'artist':
+      return [...records].sort((a, b) =>
+        artistSortKey(a).localeCompare(artistSortKey(b)) ||
+        a.album.release_date.localeCompare(b.album.release_date)
+      );
+    case 'year':
+      return [...records].sort((a, b) =>
+        b.album.release_date.localeCompare(a.album.release_date) ||
+        artistSortKey(a).localeCompare(artistSortKey(b))
+      );
+  }
+}
+
+interface RecordCollectionProps {
+  enabled: boolean;
+  // Start over when a different account becomes active
+  accountKey: string;
+}
+
+// The user's saved albums, shown as record sleeves. Playing one plays the
+// album context so the whole LP runs in order.
+export function RecordCollection({ enabled, accountKey }: RecordCollectionProps) {
+  const [sort, setSort] = useState<RecordSort>('added');
+  const [playingUri, setPlayingUri] = useState<string | null>(null);
+
+  const createPages = useCallback((signal: AbortSignal) => spotifyService.iterateSavedAlbums(signal), []);
+  const records = usePagedCollection(createPages, enabled, accountKey);
+  const { loadMore, hasMore, isLoading } = records;
+  const sentinelRef = useInfiniteScroll<HTMLDivElement>(loadMore, hasMore && !isLoading && sort === 'added');
+
+  // Sorting by anything but date added needs the whole library, so keep
+  // paging until it is all here
+  useEffect(() => {
+    if (enabled && sort !== 'added' && hasMore && !isLoading && !records.error) {
+      loadMore();
+    }
+  }, [enabled, sort, hasMore, isLoading, loadMore, records.error]);
+
+  const sorted = useMemo(() => sortRecords(records.items, sort), [records.items, sort]);
+  const isSortPending = sort !== 'added' && hasMore;
+
+  const handlePlay = async (saved: SpotifySavedAlbum) => {
+    setPlayingUri(saved.album.uri);
+    try {
+      await spotifyService.playUri(saved.album.uri);
+    } catch (err) {
+      toast.error(
+        err instanceof NoPlaybackDeviceError
+          ? 'No Spotify device is available. Open Spotify on a device and try again.'
+          : `Could not play "${saved.album.name}"`
+      );
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-4 flex items-center justify-between gap-4">
+        <p className="text-sm text-brass-dark">
+          {records.total !== null && `${records.total} ${records.total === 1 ? 'record' : 'records'}`}
+        </p>
+        <Select value={sort} onValueChange={value => setSort(value as RecordSort)}>
+          <SelectTrigger className="w-44 border-brass/30 bg-wood-light/10 text-brass" aria-label="Sort records">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SORT_LABELS) as RecordSort[]).map(option => (
+              <SelectItem key={option} value={option}>{SORT_LABELS[option]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {records.error && (
+        <p className="mb-4 text-sm text-red-500" role="alert">Could not load your records. Please try again.</p>
+      )}
+
+      {records.total === 0 && (
+        <div className="bg-wood-light/10 backdrop-blur-sm rounded-lg p-6 text-center">
+          <p className="text-brass-dark">
+            No saved albums yet. Save albums in Spotify and they'll appear here as records.
+          </p>
+        </div>
+      )}
+
+      {isSortPending ? (
+        <div className="flex flex-col items-center justify-center gap-2 py-10 text-brass-dark">
+          <Loader2 className="h-8 w-8 animate-spin text-brass" aria-hidden="true" />
+          <p className="text-sm">
+            Pulling every record off the shelf ({records.items.length} of {records.total ?? '…'})
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+          {sorted.map(saved => {
+            const { album } = saved;
+            const coverUrl = pickImageUrl(album.images, 300);
+            return (
+              <button
+                key={album.id}
+                onClick={() => handlePlay(saved)}
+                className="group text-left"
+                aria-label={`Play ${album.name} by ${album.artists.map(artist => artist.name).join(', ')}`}
+              >
+                {/* Sleeve, with the record sliding out on hover */}
+                <div className="relative aspect-square">
+                  <div
+                    className="absolute inset-[4%] rounded-full bg-vinyl record-groove shadow-md transition-transform duration-500 group-hover:translate-x-[18%]"
+                    aria-hidden="true"
+                  />
+                  <div
+                    className={`relative h-full w-full overflow-hidden rounded-sm bg-wood-light/30 shadow-lg transition-transform group-hover:-translate-x-[4%] ${
+                      playingUri === album.uri ? 'ring-2 ring-brass' : ''
+                    }`}
+                  >
+                    {coverUrl && (
+                      <img src={coverUrl} alt="" loading="lazy" className="h-full w-full object-cover" />
+                    )}
+                    <div className="absolute inset-0 flex items-center justify-center bg-black/0 opacity-0 transition-opacity group-hover:bg-black/30 group-hover:opacity-100">
+                      <Play className="h-10 w-10 text-white drop-shadow" aria-hidden="true" />
+                    </div>
+                  </div>
+                </div>
+                <p className="mt-3 truncate font-semibold text-brass">{album.name}</p>
+                <p className="truncate text-sm text-brass-dark">
+                  {album.artists.map(artist => artist.name).join(', ')} · {album.release_date.slice(0, 4)}
+                </p>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div ref={sentinelRef} className="h-1" aria-hidden="true" />
+      {isLoading && !isSortPending && (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-8 w-8 animate-spin text-brass" />
+        </div>
+      )}
+    </div>
+  );
+}
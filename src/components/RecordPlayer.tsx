@@ -1,26 +1,75 @@
 import { useState } from "react";
-import { Play, Pause, SkipForward, SkipBack } from "lucide-react";
-import { spotifyService } from "../integrations/spotify";
-
-interface RecordPlayerProps {
-  isPlaying: boolean;
-  currentTrack: {
-    name: string;
-    artist: string;
-  } | null;
+import { Link } from "react-router-dom";
+import { Play, Pause, SkipForward, SkipBack, Shuffle, Repeat, Repeat1, X, Heart } from "lucide-react";
+import { MissingScopeError, spotifyService } from "../integrations/spotify";
+import type { RepeatState } from "../integrations/spotify-api";
+import { spotifyIdFromUri } from "../integrations/spotify-models";
+import { usePlaybackState } from "../hooks/use-playback-state";
+import { useMusicSource } from "../hooks/use-music-source";
+import { useCuedRecord } from "../hooks/use-cued-record";
+import { useTrackSaved } from "../hooks/use-track-saved";
+import { useEpisode } from "../hooks/use-episode";
+import { PlaybackProgress } from "./PlaybackProgress";
+import { PodcastSkipButtons } from "./PodcastSkipButtons";
+import { DevicePicker } from "./DevicePicker";
+import { QueuePanel } from "./QueuePanel";
+
+// Indexed by the SDK's repeat_mode
+const REPEAT_MODES: RepeatState[] = ["off", "context", "track"];
+
+const REPEAT_LABELS: Record<RepeatState, string> = {
+  off: "Repeat off",
+  context: "Repeat all",
+  track: "Repeat one"
+};
+
+// Next mode in the off → context → track cycle, skipping modes the player
+// does not allow right now. Null when there is nothing to switch to.
+function nextRepeatMode(state: Spotify.PlaybackState): RepeatState | null {
+  const current = state.repeat_mode;
+  for (let step = 1; step < REPEAT_MODES.length; step++) {
+    const mode = REPEAT_MODES[(current + step) % REPEAT_MODES.length];
+    if (mode === "context" && state.disallows.toggling_repeat_context) continue;
+    if (mode === "track" && state.disallows.toggling_repeat_track) continue;
+    return mode;
+  }
+  return null;
 }
 
-const RecordPlayer = ({ isPlaying = false, currentTrack = null }: RecordPlayerProps) => {
+const RecordPlayer = () => {
+  const source = useMusicSource();
+  const isSpotify = source.id === "spotify";
+  const playbackState = usePlaybackState();
+  // Records are only cued from the Spotify library
+  const spotifyCue = useCuedRecord();
+  const cuedRecord = isSpotify ? spotifyCue : null;
+  const isPlaying = playbackState !== null && !playbackState.paused;
+  const sdkTrack = playbackState?.track_window.current_track;
+  const currentTrack = sdkTrack
+    ? {
+        name: sdkTrack.name,
+        artist: sdkTrack.artists[0]?.name || 'Unknown Artist',
+        artistId: sdkTrack.artists[0] ? spotifyIdFromUri(sdkTrack.artists[0].uri, 'artist') : null
+      }
+    : null;
+  // Episodes and local files cannot be liked
+  const trackSaved = useTrackSaved(sdkTrack ? spotifyIdFromUri(sdkTrack.uri, 'track') : null);
+  const isEpisode = sdkTrack?.type === 'episode';
+  const episode = useEpisode(isEpisode ? spotifyIdFromUri(sdkTrack.uri, 'episode') : null);
+  const isShuffling = source.isShuffling(playbackState);
+  const repeatMode = REPEAT_MODES[playbackState?.repeat_mode ?? 0] ?? "off";
+  const nextRepeat = playbackState ? nextRepeatMode(playbackState) : null;
+  const canShuffle = playbackState !== null && !playbackState.disallows.toggling_shuffle;
   const [isControlDisabled, setIsControlDisabled] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
   const handlePlayPause = async (): Promise<void> => {
-    if (!spotifyService.isLoggedIn() || isControlDisabled) return;
+    if (!source.isConnected() || isControlDisabled) return;
     
     setIsControlDisabled(true);
     setError(null);
     try {
-      await spotifyService.togglePlayback();
+      await source.togglePlayback();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to toggle playback';
       console.error('Failed to toggle playback:', error);
@@ -32,12 +81,12 @@ const RecordPlayer = ({ isPlaying = false, currentTrack = null }: RecordPlayerPr
   };
 
   const handleNext = async (): Promise<void> => {
-    if (!spotifyService.isLoggedIn() || isControlDisabled) return;
+    if (!source.isConnected() || isControlDisabled) return;
     
     setIsControlDisabled(true);
     setError(null);
     try {
-      await spotifyService.nextTrack();
+      await source.nextTrack();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to skip to next track';
       console.error('Failed to skip to next track:', error);
@@ -48,12 +97,12 @@ const RecordPlayer = ({ isPlaying = false, currentTrack = null }: RecordPlayerPr
   };
 
   const handlePrevious = async (): Promise<void> => {
-    if (!spotifyService.isLoggedIn() || isControlDisabled) return;
+    if (!source.isConnected() || isControlDisabled) return;
     
     setIsControlDisabled(true);
     setError(null);
     try {
-      await spotifyService.previousTrack();
+      await source.previousTrack();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to go to previous track';
       console.error('Failed to go to previous track:', error);
@@ -63,6 +112,52 @@ const RecordPlayer = ({ isPlaying = false, currentTrack = null }: RecordPlayerPr
     }
   };
 
+  const handleShuffle = async (): Promise<void> => {
+    if (!source.isConnected() || isControlDisabled || !canShuffle) return;
+
+    setIsControlDisabled(true);
+    setError(null);
+    try {
+      await source.setShuffle(!isShuffling);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to change shuffle';
+      console.error('Failed to change shuffle:', error);
+      setError(errorMessage);
+    } finally {
+      setTimeout(() => setIsControlDisabled(false), 300);
+    }
+  };
+
+  const handleRepeat = async (): Promise<void> => {
+    if (!source.isConnected() || isControlDisabled || !nextRepeat) return;
+
+    setIsControlDisabled(true);
+    setError(null);
+    try {
+      await source.setRepeatMode(nextRepeat);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to change repeat mode';
+      console.error('Failed to change repeat mode:', error);
+      setError(errorMessage);
+    } finally {
+      setTimeout(() => setIsControlDisabled(false), 300);
+    }
+  };
+
+  const handleToggleSaved = async (): Promise<void> => {
+    setError(null);
+    try {
+      await trackSaved.toggle();
+    } catch (error) {
+      console.error('Failed to update Liked Songs:', error);
+      setError(
+        error instanceof MissingScopeError
+          ? 'Log out and back in to allow liking songs from here'
+          : 'Failed to update Liked Songs'
+      );
+    }
+  };
+
   // Determine if controls should appear disabled
   const buttonDisabledClass = isControlDisabled ? 'opacity-50 cursor-not-allowed' : '';
 
@@ -115,6 +210,17 @@ const RecordPlayer = ({ isPlaying = false, currentTrack = null }: RecordPlayerPr
         role="group"
         aria-label="Playback controls"
       >
+        <button
+          className={`p-2 rounded-full transition-colors hover:bg-brass/10 disabled:opacity-40 disabled:cursor-not-allowed ${isShuffling ? 'text-brass' : 'text-brass-dark/60'}`}
+          onClick={handleShuffle}
+          disabled={isControlDisabled || !canShuffle}
+          aria-label="Shuffle"
+          aria-pressed={isShuffling}
+          title={isShuffling ? "Shuffle on" : "Shuffle off"}
+        >
+          <Shuffle className="w-5 h-5" aria-hidden="true" />
+        </button>
+
         <button
           className={`p-3 rounded-full bg-brass/10 hover:bg-brass/20 transition-colors ${buttonDisabledClass}`}
           onClick={handlePrevious}
@@ -129,10 +235,10 @@ const RecordPlayer = ({ isPlaying = false, currentTrack = null }: RecordPlayerPr
           className={`p-4 rounded-full bg-brass hover:bg-brass-light transition-colors transform hover:scale-105 ${buttonDisabledClass}`}
           onClick={handlePlayPause}
           disabled={isControlDisabled}
-          aria-label={isPlaying ? "Pause" : "Play"}
-          title={isPlaying ? "Pause" : "Play"}
+          aria-label={isPlaying && !cuedRecord ? "Pause" : "Play"}
+          title={isPlaying && !cuedRecord ? "Pause" : "Play"}
         >
-          {isPlaying ? (
+          {isPlaying && !cuedRecord ? (
             <Pause className="w-8 h-8 text-wood-dark" aria-hidden="true" />
           ) : (
             <Play className="w-8 h-8 text-wood-dark" aria-hidden="true" />
@@ -148,6 +254,20 @@ const RecordPlayer = ({ isPlaying = false, currentTrack = null }: RecordPlayerPr
         >
           <SkipForward className="w-6 h-6 text-brass-dark" aria-hidden="true" />
         </button>
+
+        <button
+          className={`p-2 rounded-full transition-colors hover:bg-brass/10 disabled:opacity-40 disabled:cursor-not-allowed ${repeatMode !== 'off' ? 'text-brass' : 'text-brass-dark/60'}`}
+          onClick={handleRepeat}
+          disabled={isControlDisabled || !nextRepeat}
+          aria-label={REPEAT_LABELS[repeatMode]}
+          title={REPEAT_LABELS[repeatMode]}
+        >
+          {repeatMode === "track" ? (
+            <Repeat1 className="w-5 h-5" aria-hidden="true" />
+          ) : (
+            <Repeat className="w-5 h-5" aria-hidden="true" />
+          )}
+        </button>
       </div>
 
       {/* Now Playing */}
@@ -157,14 +277,74 @@ const RecordPlayer = ({ isPlaying = false, currentTrack = null }: RecordPlayerPr
         aria-live="polite"
       >
         <p className="font-playfair text-brass-dark text-sm">Now Playing</p>
-        <h2 className="font-playfair text-xl font-semibold mt-1 text-brass line-clamp-1">
-          {currentTrack?.name || 'Select a Playlist'}
-        </h2>
+        <div className="mt-1 flex items-center justify-center gap-2">
+          <h2 className="font-playfair text-xl font-semibold text-brass line-clamp-1">
+            {currentTrack?.name || 'Select a Playlist'}
+          </h2>
+          {trackSaved.saved !== null && (
+            <button
+              onClick={handleToggleSaved}
+              disabled={trackSaved.isPending}
+              className="shrink-0 p-1 rounded-full text-brass hover:bg-brass/10 transition-colors disabled:opacity-50"
+              aria-label={trackSaved.saved ? "Remove from Liked Songs" : "Save to Liked Songs"}
+              aria-pressed={trackSaved.saved}
+            >
+              <Heart className={`w-5 h-5 ${trackSaved.saved ? "fill-current" : ""}`} />
+            </button>
+          )}
+        </div>
         <p className="font-inter text-brass-dark/80 text-sm mt-1 line-clamp-1">
-          {currentTrack?.artist || 'Your Vinyl Collection'}
+          {currentTrack?.artistId ? (
+            <Link
+              to={`/artist/${currentTrack.artistId}`}
+              className="hover:text-brass hover:underline underline-offset-2"
+            >
+              {currentTrack.artist}
+            </Link>
+          ) : (
+            currentTrack?.artist || 'Your Vinyl Collection'
+          )}
         </p>
+        {isEpisode && episode?.description && (
+          <p className="font-inter text-brass-dark/70 text-xs mt-2 mx-auto max-w-md line-clamp-3">
+            {episode.description}
+          </p>
+        )}
       </div>
 
+      {/* Cued record, starts when play is pressed */}
+      {cuedRecord && (
+        <div className="mt-4 mx-auto flex max-w-md items-center gap-3 rounded-lg bg-brass/10 p-2 pr-3">
+          {cuedRecord.imageUrl && (
+            <img src={cuedRecord.imageUrl} alt="" className="w-10 h-10 rounded object-cover" />
+          )}
+          <div className="min-w-0 flex-1 text-left">
+            <p className="font-inter text-xs text-brass-dark/80">On the turntable · press play</p>
+            <p className="font-playfair text-sm font-semibold text-brass truncate">{cuedRecord.name}</p>
+          </div>
+          <button
+            onClick={() => spotifyService.clearCue()}
+            className="p-1 rounded-full text-brass-dark hover:text-brass"
+            aria-label="Take the record off the turntable"
+            title="Take it off"
+          >
+            <X className="w-4 h-4" aria-hidden="true" />
+          </button>
+        </div>
+      )}
+
+      {/* Progress */}
+      {currentTrack && <PlaybackProgress playbackState={playbackState} />}
+      {isEpisode && playbackState && <PodcastSkipButtons playbackState={playbackState} />}
+
+      {/* Spotify Connect and the play queue */}
+      {isSpotify && spotifyService.isLoggedIn() && (
+        <div className="mt-4 flex flex-wrap items-start justify-center gap-2">
+          <DevicePicker />
+          <QueuePanel />
+        </div>
+      )}
+
       {/* Error Message */}
       {error && (
         <div 
@@ -0,0 +1,57 @@
+import { Disc3, Music, Play } from 'lucide-react';
+import type { CuedRecord } from '../integrations/spotify';
+import { AddToQueueButton } from './AddToQueueButton';
+
+interface RecordRowProps {
+  record: CuedRecord;
+  // Round artwork, for artists
+  roundImage?: boolean;
+  // Offer "Add to queue" (tracks and episodes only)
+  queueable?: boolean;
+  onPlay: (record: CuedRecord) => void;
+  onCue: (record: CuedRecord) => void;
+}
+
+// One playable item in a list: artwork, title, byline and the actions to
+// play it now, put it on the turntable or queue it
+export function RecordRow({ record, roundImage = false, queueable = false, onPlay, onCue }: RecordRowProps) {
+  return (
+    <li className="group flex items-center gap-3 rounded-md p-2 hover:bg-wood-light/20">
+      {record.imageUrl ? (
+        <img
+          src={record.imageUrl}
+          alt=""
+          loading="lazy"
+          className={`h-12 w-12 shrink-0 object-cover ${roundImage ? 'rounded-full' : 'rounded'}`}
+        />
+      ) : (
+        <div className="flex h-12 w-12 shrink-0 items-center justify-center rounded bg-wood-light/30">
+          <Music className="h-5 w-5 text-brass-dark" aria-hidden="true" />
+        </div>
+      )}
+      <div className="min-w-0 flex-1">
+        <p className="truncate font-medium text-brass">{record.name}</p>
+        <p className="truncate text-sm text-brass-dark">{record.subtitle}</p>
+      </div>
+      <div className="flex shrink-0 items-center gap-1">
+        <button
+          onClick={() => onCue(record)}
+          className="rounded-full p-1.5 text-brass-dark hover:bg-brass/10 hover:text-brass"
+          aria-label={`Put ${record.name} on the turntable`}
+          title="Put on the turntable"
+        >
+          <Disc3 className="h-4 w-4" aria-hidden="true" />
+        </button>
+        {queueable && <AddToQueueButton uri={record.uri} name={record.name} />}
+        <button
+          onClick={() => onPlay(record)}
+          className="rounded-full bg-brass p-1.5 text-wood-dark hover:bg-brass-light"
+          aria-label={`Play ${record.name}`}
+          title="Play now"
+        >
+          <Play className="h-4 w-4" aria-hidden="true" />
+        </button>
+      </div>
+    </li>
+  );
+}
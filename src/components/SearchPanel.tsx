@@ -0,0 +1,327 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Clock, Loader2, Search, X } from 'lucide-react';
+import { spotifyService, type CuedRecord } from '../integrations/spotify';
+import {
+  pickImageUrl,
+  type SearchItemMap,
+  type SearchResults,
+  type SearchType
+} from '../integrations/spotify-models';
+import { RecentSearches } from '../lib/recent-searches';
+import { useDebouncedValue } from '../hooks/use-debounced-value';
+import { usePagedCollection } from '../hooks/use-paged-collection';
+import { useInfiniteScroll } from '../hooks/use-infinite-scroll';
+import { useRecordActions } from '../hooks/use-record-actions';
+import { RecordRow } from './RecordRow';
+import { Input } from './ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+
+const SEARCH_DEBOUNCE_MS = 300;
+// Results per type in the grouped overview
+const OVERVIEW_LIMIT = 5;
+
+const SEARCH_TYPES: SearchType[] = ['track', 'album', 'artist', 'playlist'];
+
+const TYPE_LABELS: Record<SearchType, string> = {
+  track: 'Songs',
+  album: 'Albums',
+  artist: 'Artists',
+  playlist: 'Playlists'
+};
+
+const recentSearches = new RecentSearches();
+
+// Everything a result row needs, whatever the item type
+interface ResultEntry {
+  key: string;
+  type: SearchType;
+  record: CuedRecord;
+}
+
+function toResultEntry<K extends SearchType>(type: K, item: SearchItemMap[K]): ResultEntry {
+  switch (item.type) {
+    case 'track':
+      return {
+        key: `track:${item.uri}`,
+        type,
+        record: {
+          uri: item.uri,
+          // Play the song within its album so the record keeps turning after it
+          contextUri: item.album.uri ?? undefined,
+          name: item.name,
+          subtitle: `${item.artists.map(artist => artist.name).join(', ')} · ${item.album.name}`,
+          imageUrl: pickImageUrl(item.album.images, 64)
+        }
+      };
+    case 'album':
+      return {
+        key: `album:${item.uri}`,
+        type,
+        record: {
+          uri: item.uri,
+          name: item.name,
+          subtitle: `${item.artists.map(artist => artist.name).join(', ')} · ${item.release_date.slice(0, 4)}`,
+          imageUrl: pickImageUrl(item.images, 64)
+        }
+      };
+    case 'artist':
+      return {
+        key: `artist:${item.uri}`,
+        type,
+        record: {
+          uri: item.uri,
+          name: item.name,
+          subtitle: 'Artist',
+          imageUrl: pickImageUrl(item.images, 64)
+        }
+      };
+    case 'playlist':
+      return {
+        key: `playlist:${item.uri}`,
+        type,
+        record: {
+          uri: item.uri,
+          name: item.name,
+          subtitle: `Playlist · ${item.owner.display_name ?? item.owner.id}`,
+          imageUrl: pickImageUrl(item.images, 64)
+        }
+      };
+  }
+}
+
+interface ResultRowProps {
+  entry: ResultEntry;
+  onPlay: (record: CuedRecord) => void;
+  onCue: (record: CuedRecord) => void;
+}
+
+function ResultRow({ entry, onPlay, onCue }: ResultRowProps) {
+  return (
+    <RecordRow
+      record={entry.record}
+      roundImage={entry.type === 'artist'}
+      queueable={entry.type === 'track'}
+      onPlay={onPlay}
+      onCue={onCue}
+    />
+  );
+}
+
+interface TypeResultsProps {
+  query: string;
+  type: SearchType;
+  onPlay: (record: CuedRecord) => void;
+  onCue: (record: CuedRecord) => void;
+}
+
+// Every result of one type, paged in as the list scrolls
+function TypeResults({ query, type, onPlay, onCue }: TypeResultsProps) {
+  const createPages = useCallback(
+    (signal: AbortSignal) => spotifyService.iterateSearch(query, type, signal),
+    [query, type]
+  );
+  const results = usePagedCollection<SearchItemMap[SearchType]>(createPages, true, `${type}:${query}`);
+  const sentinelRef = useInfiniteScroll<HTMLDivElement>(results.loadMore, results.hasMore && !results.isLoading);
+
+  if (results.error) {
+    return <p className="py-4 text-sm text-red-500" role="alert">Search failed. Please try again.</p>;
+  }
+
+  return (
+    <div>
+      {results.total === 0 && (
+        <p className="py-4 text-sm text-brass-dark">No {TYPE_LABELS[type].toLowerCase()} found for "{query}".</p>
+      )}
+      <ul>
+        {results.items.map(item => {
+          const entry = toResultEntry(type, item);
+          return <ResultRow key={entry.key} entry={entry} onPlay={onPlay} onCue={onCue} />;
+        })}
+      </ul>
+      {results.isLoading && (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-brass" aria-label="Loading more results" />
+        </div>
+      )}
+      <div ref={sentinelRef} aria-hidden="true" />
+    </div>
+  );
+}
+
+interface SearchPanelProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+}
+
+// Catalog search with typeahead. The overview shows the top few results of
+// each type; a type's tab lists all of them with infinite scroll.
+export function SearchPanel({ query, onQueryChange }: SearchPanelProps) {
+  const debouncedQuery = useDebouncedValue(query.trim(), SEARCH_DEBOUNCE_MS);
+  const [tab, setTab] = useState<'all' | SearchType>('all');
+  const [overview, setOverview] = useState<SearchResults | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [recent, setRecent] = useState(() => recentSearches.list());
+
+  useEffect(() => {
+    setTab('all');
+    setOverview(null);
+    setError(null);
+    if (!debouncedQuery) return;
+
+    const controller = new AbortController();
+    setIsSearching(true);
+    spotifyService.search(debouncedQuery, SEARCH_TYPES, OVERVIEW_LIMIT, controller.signal)
+      .then(results => {
+        if (!controller.signal.aborted) setOverview(results);
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error('Search error:', err);
+        setError('Search failed. Please try again.');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsSearching(false);
+      });
+
+    return () => controller.abort();
+  }, [debouncedQuery]);
+
+  const rememberQuery = useCallback(() => {
+    if (debouncedQuery) {
+      setRecent(recentSearches.add(debouncedQuery));
+    }
+  }, [debouncedQuery]);
+
+  const { play, cue } = useRecordActions();
+
+  const handlePlay = useCallback((record: CuedRecord) => {
+    rememberQuery();
+    play(record);
+  }, [rememberQuery, play]);
+
+  const handleCue = useCallback((record: CuedRecord) => {
+    rememberQuery();
+    cue(record);
+  }, [rememberQuery, cue]);
+
+  const handleRemoveRecent = (search: string) => {
+    setRecent(recentSearches.remove(search));
+  };
+
+  const handleClearRecent = () => {
+    recentSearches.clear();
+    setRecent([]);
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-brass-dark" aria-hidden="true" />
+        <Input
+          type="search"
+          value={query}
+          onChange={event => onQueryChange(event.target.value)}
+          onKeyDown={event => {
+            if (event.key === 'Enter') rememberQuery();
+            if (event.key === 'Escape') onQueryChange('');
+          }}
+          placeholder="Search songs, albums, artists and playlists"
+          className="border-brass/30 bg-wood-light/10 pl-9 pr-9 text-brass placeholder:text-brass-dark/70"
+          aria-label="Search Spotify"
+        />
+        {query && (
+          <button
+            onClick={() => onQueryChange('')}
+            className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full p-1 text-brass-dark hover:text-brass"
+            aria-label="Clear search"
+          >
+            <X className="h-4 w-4" aria-hidden="true" />
+          </button>
+        )}
+      </div>
+
+      {/* Recent searches while the box is empty */}
+      {!query.trim() && recent.length > 0 && (
+        <div className="mt-3">
+          <div className="mb-2 flex items-center justify-between">
+            <p className="text-sm font-semibold text-brass-dark">Recent searches</p>
+            <button onClick={handleClearRecent} className="text-xs text-brass-dark hover:text-brass">
+              Clear
+            </button>
+          </div>
+          <ul className="flex flex-wrap gap-2">
+            {recent.map(search => (
+              <li key={search} className="flex items-center rounded-full bg-wood-light/20 text-sm text-brass">
+                <button onClick={() => onQueryChange(search)} className="flex items-center gap-1.5 py-1 pl-3">
+                  <Clock className="h-3.5 w-3.5" aria-hidden="true" />
+                  {search}
+                </button>
+                <button
+                  onClick={() => handleRemoveRecent(search)}
+                  className="px-2 py-1 text-brass-dark hover:text-brass"
+                  aria-label={`Remove ${search} from recent searches`}
+                >
+                  <X className="h-3 w-3" aria-hidden="true" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {debouncedQuery && (
+        <Tabs value={tab} onValueChange={value => setTab(value as 'all' | SearchType)} className="mt-4">
+          <TabsList className="bg-wood-light/20">
+            <TabsTrigger value="all">All</TabsTrigger>
+            {SEARCH_TYPES.map(type => (
+              <TabsTrigger key={type} value={type}>{TYPE_LABELS[type]}</TabsTrigger>
+            ))}
+          </TabsList>
+
+          <TabsContent value="all">
+            {isSearching && !overview && (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-brass" aria-label="Searching" />
+              </div>
+            )}
+            {error && <p className="py-4 text-sm text-red-500" role="alert">{error}</p>}
+            {overview && SEARCH_TYPES.every(type => !overview[`${type}s`]?.items.length) && (
+              <p className="py-4 text-sm text-brass-dark">Nothing found for "{debouncedQuery}".</p>
+            )}
+            {overview && SEARCH_TYPES.map(type => {
+              const page = overview[`${type}s`];
+              if (!page || page.items.length === 0) return null;
+              return (
+                <section key={type} className="mt-4">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-semibold text-brass">{TYPE_LABELS[type]}</h3>
+                    {page.total > page.items.length && (
+                      <button onClick={() => setTab(type)} className="text-xs text-brass-dark hover:text-brass">
+                        See all
+                      </button>
+                    )}
+                  </div>
+                  <ul>
+                    {page.items.map(item => {
+                      const entry = toResultEntry(type, item);
+                      return <ResultRow key={entry.key} entry={entry} onPlay={handlePlay} onCue={handleCue} />;
+                    })}
+                  </ul>
+                </section>
+              );
+            })}
+          </TabsContent>
+
+          {SEARCH_TYPES.map(type => (
+            <TabsContent key={type} value={type}>
+              {tab === type && (
+                <TypeResults query={debouncedQuery} type={type} onPlay={handlePlay} onCue={handleCue} />
+              )}
+            </TabsContent>
+          ))}
+        </Tabs>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, Play } from 'lucide-react';
+import { toast } from 'sonner';
+import type { MusicSource, SourceCollection } from '../integrations/music-source';
+import { usePagedCollection } from '../hooks/use-paged-collection';
+import { useInfiniteScroll } from '../hooks/use-infinite-scroll';
+
+interface SourceCollectionGridProps {
+  source: MusicSource;
+  // Shown when the source is connected but has nothing to list
+  emptyMessage: string;
+}
+
+// A music source's albums or playlists as record sleeves, for sources
+// without a library view of their own
+export function SourceCollectionGrid({ source, emptyMessage }: SourceCollectionGridProps) {
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  // Bumped whenever the source's library changes, to list it again
+  const [libraryVersion, setLibraryVersion] = useState(0);
+
+  useEffect(() => source.on('library', () => setLibraryVersion(version => version + 1)), [source]);
+
+  const createPages = useCallback((signal: AbortSignal) => source.iterateCollections(signal), [source]);
+  const collections = usePagedCollection(createPages, source.isConnected(), `${source.id}:${libraryVersion}`);
+  const { loadMore, hasMore, isLoading } = collections;
+  const sentinelRef = useInfiniteScroll<HTMLDivElement>(loadMore, hasMore && !isLoading);
+
+  const handlePlay = async (collection: SourceCollection) => {
+    setPlayingId(collection.id);
+    try {
+      await source.playCollection(collection.id);
+    } catch (err) {
+      console.error(`Error playing ${collection.name}:`, err);
+      toast.error(`Could not play "${collection.name}"`);
+    }
+  };
+
+  return (
+    <div>
+      {collections.error && (
+        <p className="mb-4 text-sm text-red-500" role="alert">Could not load your records. Please try again.</p>
+      )}
+
+      {collections.total === 0 && (
+        <div className="bg-wood-light/10 backdrop-blur-sm rounded-lg p-6 text-center">
+          <p className="text-brass-dark">{emptyMessage}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+        {collections.items.map(collection => (
+          <button
+            key={collection.id}
+            onClick={() => handlePlay(collection)}
+            className="group text-left"
+            aria-label={`Play ${collection.name} by ${collection.subtitle}`}
+          >
+            {/* Sleeve, with the record sliding out on hover */}
+            <div className="relative aspect-square">
+              <div
+                className="absolute inset-[4%] rounded-full bg-vinyl record-groove shadow-md transition-transform duration-500 group-hover:translate-x-[18%]"
+                aria-hidden="true"
+              />
+              <div
+                className={`relative h-full w-full overflow-hidden rounded-sm bg-wood-light/30 shadow-lg transition-transform group-hover:-translate-x-[4%] ${
+                  playingId === collection.id ? 'ring-2 ring-brass' : ''
+                }`}
+              >
+                {collection.imageUrl && (
+                  <img src={collection.imageUrl} alt="" loading="lazy" className="h-full w-full object-cover" />
+                )}
+                <div className="absolute inset-0 flex items-center justify-center bg-black/0 opacity-0 transition-opacity group-hover:bg-black/30 group-hover:opacity-100">
+                  <Play className="h-10 w-10 text-white drop-shadow" aria-hidden="true" />
+                </div>
+              </div>
+            </div>
+            <p className="mt-3 truncate font-semibold text-brass">{collection.name}</p>
+            <p className="truncate text-sm text-brass-dark">
+              {collection.subtitle} · {collection.trackCount} {collection.trackCount === 1 ? 'track' : 'tracks'}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      <div ref={sentinelRef} className="h-1" aria-hidden="true" />
+      {isLoading && (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-8 w-8 animate-spin text-brass" />
+        </div>
+      )}
+    </div>
+  );
+}
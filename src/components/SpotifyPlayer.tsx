@@ -1,12 +1,18 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useRef, useState, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { spotifyService } from '../integrations/spotify';
-import { Loader2 } from 'lucide-react';
-
-interface SpotifyPlayerProps {
-  onPlaybackStateChange?: (isPlaying: boolean) => void;
-  onTrackChange?: (trackName: string, artistName: string) => void;
-}
+import { NoPlaybackDeviceError, spotifyService } from '../integrations/spotify';
+import { SpotifyApiError } from '../integrations/spotify-request';
+import { isLikedSongs, type LibraryPlaylist, type LikedSongsCollection } from '../integrations/spotify-models';
+import { usePagedCollection } from '../hooks/use-paged-collection';
+import { useInfiniteScroll } from '../hooks/use-infinite-scroll';
+import { AccountSwitcher } from './AccountSwitcher';
+import { SearchPanel } from './SearchPanel';
+import { RecordCollection } from './RecordCollection';
+import { ListeningHistory } from './ListeningHistory';
+import { PodcastShelf } from './PodcastShelf';
+import { PlaylistEditorDialog } from './PlaylistEditorDialog';
+import { CreatePlaylistDialog } from './CreatePlaylistDialog';
+import { Loader2, MonitorSpeaker, Pencil, Plus, Shuffle } from 'lucide-react';
 
 // Possible states for the player
 type PlayerStatus = 
@@ -16,22 +22,80 @@ type PlayerStatus =
   | 'ready'          // Player is ready to use
   | 'error';         // Something went wrong
 
-export function SpotifyPlayer({ onPlaybackStateChange, onTrackChange }: SpotifyPlayerProps) {
+export function SpotifyPlayer() {
   const navigate = useNavigate();
   const [status, setStatus] = useState<PlayerStatus>('initializing');
-  const [playlists, setPlaylists] = useState<any[]>([]);
+  const [likedSongs, setLikedSongs] = useState<LikedSongsCollection | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [currentPlaylist, setCurrentPlaylist] = useState<string | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [noPlaylists, setNoPlaylists] = useState(false);
-  const [playlistsLoaded, setPlaylistsLoaded] = useState(false);
+  const [likedSongsLoaded, setLikedSongsLoaded] = useState(false);
   const [retryCount, setRetryCount] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
-  const [currentTrack, setCurrentTrack] = useState<{ name: string, artist: string } | null>(null);
+  const [activeAccountId, setActiveAccountId] = useState<string | null>(null);
+  // The SDK could not load, so we drive the user's other Spotify devices instead
+  const [isRemoteControl, setIsRemoteControl] = useState(false);
+  // The collection grid makes way for results while a search is typed
+  const [searchQuery, setSearchQuery] = useState('');
+  const isSearching = searchQuery.trim() !== '';
+  const [collectionView, setCollectionView] = useState<'playlists' | 'records' | 'podcasts' | 'listening'>('playlists');
+  const [editingPlaylistId, setEditingPlaylistId] = useState<string | null>(null);
+  const [isCreatingPlaylist, setIsCreatingPlaylist] = useState(false);
+  // Set by edits in the playlist editor; the grid reloads once it closes
+  const playlistsChangedRef = useRef(false);
+
+  // Playlists are paged in as the collection grid scrolls, and start over
+  // whenever a different account becomes active
+  const createPlaylistPages = useCallback((signal: AbortSignal) => spotifyService.iterateUserPlaylists(signal), []);
+  const userPlaylists = usePagedCollection(
+    createPlaylistPages,
+    status === 'ready' && spotifyService.isLoggedIn(),
+    activeAccountId ?? ''
+  );
+  const { loadMore: loadMorePlaylists } = userPlaylists;
+  const playlistSentinelRef = useInfiniteScroll<HTMLDivElement>(
+    loadMorePlaylists,
+    userPlaylists.hasMore && !userPlaylists.isLoading
+  );
+  const playlists: LibraryPlaylist[] = likedSongs ? [likedSongs, ...userPlaylists.items] : userPlaylists.items;
+  const noPlaylists = likedSongsLoaded && !likedSongs && !userPlaylists.hasMore && userPlaylists.items.length === 0;
+
+  useEffect(() => {
+    if (userPlaylists.error) {
+      setError('Could not load your playlists. Please try again.');
+    }
+  }, [userPlaylists.error]);
+
+  // Keep the Liked Songs count in step with likes from the turntable
+  useEffect(() => spotifyService.on('track_saved', ({ saved }) => {
+    setLikedSongs(collection => collection && {
+      ...collection,
+      tracks: { total: Math.max(0, collection.tracks.total + (saved ? 1 : -1)) }
+    });
+  }), []);
+
+  // Load the Liked Songs collection card once the player is ready
+  useEffect(() => {
+    if (status !== 'ready' || !spotifyService.isLoggedIn()) return;
+
+    let cancelled = false;
+    setLikedSongsLoaded(false);
+    spotifyService.getUserSavedTracks().then(collection => {
+      if (cancelled) return;
+      setLikedSongs(collection);
+      setLikedSongsLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [status, activeAccountId]);
 
   // Check for authentication on component mount
   useEffect(() => {
     const checkAuth = async () => {
+      // Tokens may come from an asynchronous store, wait for them first
+      await spotifyService.whenReady();
+      setActiveAccountId(spotifyService.getActiveAccount()?.id ?? null);
+
       // Handle the callback from Spotify auth - now using query params instead of hash
       if (window.location.search && window.location.search.includes('code=')) {
         setStatus('authenticating');
@@ -45,6 +109,7 @@ export function SpotifyPlayer({ onPlaybackStateChange, onTrackChange }: SpotifyP
           
           const success = await spotifyService.handleCallback();
           if (success) {
+            setActiveAccountId(spotifyService.getActiveAccount()?.id ?? null);
             // Redirect to home page after successful login
             navigate('/', { replace: true });
             // Skip to connecting since we have a token
@@ -68,113 +133,8 @@ export function SpotifyPlayer({ onPlaybackStateChange, onTrackChange }: SpotifyP
     };
     
     checkAuth();
-
-    // Add global error handler to suppress known Spotify SDK messaging error
-    const handleGlobalErrors = (event: ErrorEvent) => {
-      // Suppress the message channel closed error
-      if (event.message && event.message.includes('message channel closed before a response was received')) {
-        console.log('Suppressed Spotify SDK message channel error');
-        event.preventDefault();
-        return true;
-      }
-      
-      // Suppress CloudPlaybackClientError errors related to analytics
-      if (event.error && 
-          (event.error.toString().includes('CloudPlaybackClientError') || 
-           event.error.toString().includes('PlayLoad event failed with status 404') ||
-           event.error.toString().includes('Failed to load resource') ||
-           event.error.toString().includes('api.spotify.com'))) {
-        console.log('Suppressed Spotify SDK analytics error');
-        event.preventDefault();
-        return true;
-      }
-      
-      return false;
-    };
-
-    // Add global unhandled rejection handler to suppress the same error in promises
-    const handleUnhandledRejection = (event: PromiseRejectionEvent) => {
-      // Check if this is a Spotify SDK error we want to suppress
-      if (event.reason && 
-          (event.reason.toString().includes('message channel closed before a response was received') ||
-           event.reason.toString().includes('CloudPlaybackClientError') ||
-           event.reason.toString().includes('PlayLoad event failed with status 404') ||
-           event.reason.toString().includes('cpapi.spotify.com') ||
-           event.reason.toString().includes('api.spotify.com/v1/me/player/play'))) {
-        console.log('Suppressed Spotify SDK promise rejection:', 
-                    event.reason.toString().substring(0, 100) + '...');
-        event.preventDefault();
-        return true;
-      }
-      return false;
-    };
-
-    // Special handling for Brave browser
-    const isBrave = (navigator as any).brave !== undefined || 
-                   (navigator.userAgent && navigator.userAgent.includes('Brave'));
-    
-    if (isBrave) {
-      console.log('Brave browser detected, adding additional error handling for Spotify SDK');
-      
-      // Intercept fetch calls to cpapi.spotify.com to prevent 404 errors
-      const originalFetch = window.fetch;
-      window.fetch = async function(input: RequestInfo | URL, init?: RequestInit) {
-        const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
-        
-        // If this is a request to Spotify's analytics endpoint, handle specially
-        if (url.includes('cpapi.spotify.com') || url.includes('event/item_before_load')) {
-          try {
-            const response = await originalFetch(input, init);
-            
-            // If we get a 404 or 400, return a fake successful response
-            if (response.status === 404 || response.status === 400) {
-              console.log(`Intercepted ${response.status} response for ${url.split('?')[0]}`);
-              return new Response(JSON.stringify({success: true}), {
-                status: 200,
-                headers: {'Content-Type': 'application/json'}
-              });
-            }
-            return response;
-          } catch (error) {
-            console.log(`Intercepted fetch error for ${url.split('?')[0]}`);
-            // Return a fake successful response instead of throwing
-            return new Response(JSON.stringify({success: true}), {
-              status: 200,
-              headers: {'Content-Type': 'application/json'}
-            });
-          }
-        }
-        
-        // Pass through normal requests
-        return originalFetch(input, init);
-      };
-    }
-
-    // Register error handlers
-    window.addEventListener('error', handleGlobalErrors);
-    window.addEventListener('unhandledrejection', handleUnhandledRejection);
-
-    // Clean up
-    return () => {
-      window.removeEventListener('error', handleGlobalErrors);
-      window.removeEventListener('unhandledrejection', handleUnhandledRejection);
-    };
   }, [navigate]);
 
-  // Call onPlaybackStateChange when isPlaying changes
-  useEffect(() => {
-    if (onPlaybackStateChange) {
-      onPlaybackStateChange(isPlaying);
-    }
-  }, [isPlaying, onPlaybackStateChange]);
-
-  // Call onTrackChange when currentTrack changes
-  useEffect(() => {
-    if (currentTrack && onTrackChange) {
-      onTrackChange(currentTrack.name, currentTrack.artist);
-    }
-  }, [currentTrack, onTrackChange]);
-
   // Initialize the player
   const initializePlayer = async () => {
     try {
@@ -188,8 +148,9 @@ export function SpotifyPlayer({ onPlaybackStateChange, onTrackChange }: SpotifyP
       setStatus('connecting');
     console.log('Initializing Spotify player...');
       
-      // First, load the Spotify Web Playback SDK if it hasn't been loaded yet
-      if (!window.Spotify || !document.getElementById('spotify-player')) {
+      // First, load the Spotify Web Playback SDK if it hasn't been loaded yet.
+      // The simulator brings its own player, so there is nothing to load.
+      if (!spotifyService.isSimulated() && (!window.Spotify || !document.getElementById('spotify-player'))) {
         console.log('Loading Spotify SDK script...');
         
         // Create a promise to track when the SDK is ready
@@ -227,65 +188,33 @@ export function SpotifyPlayer({ onPlaybackStateChange, onTrackChange }: SpotifyP
           await sdkReadyPromise;
           console.log('Spotify SDK loaded successfully');
         } catch (error) {
+          // Without the SDK this browser cannot play audio itself, but the
+          // Web API can still drive the user's phone, computer or speakers
           console.error('Error loading Spotify SDK:', error);
-          setError(error instanceof Error ? error.message : 'Failed to load Spotify SDK');
-          setStatus('error');
-          return false;
+          spotifyService.startRemoteControl();
+          setIsRemoteControl(true);
+          setStatus('ready');
+          return true;
         }
       }
       
-      // Add a listener for uncaught promise rejections to catch 404 errors
-      const rejectionHandler = (event: PromiseRejectionEvent) => {
-        console.error('Uncaught promise rejection in Spotify Player:', event.reason);
-        if (event.reason && event.reason.message && 
-           (event.reason.message.includes('404') || 
-            event.reason.message.includes('Not Found') ||
-            event.reason.toString().includes('PlayLoad event failed'))) {
-          setError("Spotify API endpoint returned 404 Not Found. This is likely a temporary issue with Spotify's servers.");
-          setStatus('error');
-        }
-      };
-      
-      window.addEventListener('unhandledrejection', rejectionHandler);
-      
-      // Initialize the player with a timeout
+      // Initialize the player with a timeout. The SDK's own harmless failures
+      // are filtered by sdk-noise.ts; anything else shows up as `false` here.
       const success = await Promise.race([
-        spotifyService.initializePlayer((state) => {
-          // Update playing state
-          const isCurrentlyPlaying = !state?.paused;
-          setIsPlaying(isCurrentlyPlaying);
-          
-          // Update track info if available
-          if (state?.track_window?.current_track) {
-            const { name, artists } = state.track_window.current_track;
-            setCurrentTrack({
-              name,
-              artist: artists[0]?.name || 'Unknown Artist'
-            });
-          }
-        }),
+        spotifyService.initializePlayer(),
         new Promise<boolean>(resolve => setTimeout(() => resolve(false), 30000))
       ]);
-      
-      // Remove the listener
-      window.removeEventListener('unhandledrejection', rejectionHandler);
 
       if (!success) {
         console.error('Failed to initialize Spotify player');
-        
-        // Check if there's already an error set from the rejection handler
-        if (status !== 'error') {
-          setError("Could not connect to Spotify. Please check that you have Spotify Premium and try again.");
-          setStatus('error');
-        }
-        
+        setError("Could not connect to Spotify. Please check that you have Spotify Premium and try again.");
+        setStatus('error');
         return false;
       }
 
       console.log('Spotify player initialized successfully');
+      // Liked Songs and the playlist pages load once the status flips to ready
       setStatus('ready');
-      // Load playlists after successful player initialization
-      loadPlaylists();
       return true;
     } catch (err) {
       console.error('Error initializing Spotify player:', err);
@@ -306,21 +235,6 @@ export function SpotifyPlayer({ onPlaybackStateChange, onTrackChange }: SpotifyP
     }
   };
   
-  // Load user playlists
-  const loadPlaylists = async () => {
-    if (playlistsLoaded) return; // Don't reload if already loaded
-    
-    try {
-    const userPlaylists = await spotifyService.getUserPlaylists();
-    setPlaylists(userPlaylists);
-      setNoPlaylists(userPlaylists.length === 0);
-      setPlaylistsLoaded(true);
-    } catch (err) {
-      console.error('Failed to load playlists:', err);
-      setError('Could not load your playlists. Please try again.');
-    }
-  };
-  
   // Handle login action
   const handleLogin = () => {
     try {
@@ -346,8 +260,26 @@ export function SpotifyPlayer({ onPlaybackStateChange, onTrackChange }: SpotifyP
     }
   }, []);
 
+  // Swap to another signed-in account and reconnect the player with its token
+  const handleSwitchAccount = async (accountId: string) => {
+    setStatus('connecting');
+    setError(null);
+    setLikedSongs(null);
+    setCurrentPlaylist(null);
+    setIsRemoteControl(false);
+
+    const loggedIn = await spotifyService.switchAccount(accountId);
+    setActiveAccountId(accountId);
+    if (loggedIn) {
+      await initializePlayer();
+    } else {
+      // That account's session has expired; show the sign-in screen
+      setStatus('ready');
+    }
+  };
+
   // Play a playlist
-  const playPlaylist = async (playlistId: string) => {
+  const playPlaylist = async (playlistId: string, options?: { shuffle?: boolean }) => {
     if (status !== 'ready') {
       setError('Player is not ready yet. Please wait a moment and try again.');
       return;
@@ -358,7 +290,7 @@ export function SpotifyPlayer({ onPlaybackStateChange, onTrackChange }: SpotifyP
       setIsLoading(true);
       console.log(`Attempting to play playlist: ${playlistId}`);
       
-      await spotifyService.playPlaylist(playlistId);
+      await spotifyService.playPlaylist(playlistId, options);
       
       // Clear any previous errors if playback succeeds
       setError(null);
@@ -366,22 +298,26 @@ export function SpotifyPlayer({ onPlaybackStateChange, onTrackChange }: SpotifyP
       console.error('Playback error:', err);
       let errorMessage = 'Could not play this playlist. Please try again or choose another playlist.';
       
-      if (err instanceof Error) {
-        const errMsg = err.message.toLowerCase();
-        
+      if (err instanceof NoPlaybackDeviceError) {
+        errorMessage = 'No Spotify device is online. Open Spotify on your phone, computer or speaker, then try again.';
+      } else if (err instanceof SpotifyApiError) {
         // Check for specific errors
-        if (errMsg.includes('403') || errMsg.includes('forbidden')) {
+        if (err.kind === 'forbidden') {
           errorMessage = 'Playback failed. Spotify Premium is required to use the Web Playback SDK.';
-        } else if (errMsg.includes('404') || errMsg.includes('not found')) {
+        } else if (err.kind === 'not_found') {
           errorMessage = 'This content could not be found. It may have been removed or made private.';
-        } else if (errMsg.includes('400') || errMsg.includes('bad request')) {
+        } else if (err.kind === 'rate_limited') {
+          errorMessage = 'Spotify is receiving too many requests. Please wait a moment and try again.';
+        } else if (err.kind === 'network') {
+          errorMessage = 'Could not reach Spotify. Please check your internet connection.';
+        } else if (err.kind === 'bad_request') {
           // For liked songs, provide specific guidance
           if (playlistId === 'liked-songs') {
             errorMessage = 'Could not play Liked Songs. Please try refreshing the page or logging out and back in.';
           } else {
             errorMessage = 'Invalid request. The playlist may be empty or unavailable.';
           }
-        } else if (errMsg.includes('401') || errMsg.includes('unauthorized')) {
+        } else if (err.kind === 'unauthorized') {
           // Force logout and re-login for auth issues
           errorMessage = 'Your Spotify session has expired. Please log in again.';
           spotifyService.logout();
@@ -395,6 +331,19 @@ export function SpotifyPlayer({ onPlaybackStateChange, onTrackChange }: SpotifyP
     }
   };
   
+  const handleCloseEditor = () => {
+    setEditingPlaylistId(null);
+    if (playlistsChangedRef.current) {
+      playlistsChangedRef.current = false;
+      userPlaylists.reset();
+      loadMorePlaylists();
+    }
+  };
+
+  // Only the owner, or anyone for a collaborative playlist, may edit
+  const canEditPlaylist = (playlist: LibraryPlaylist): boolean =>
+    !isLikedSongs(playlist) && (playlist.collaborative || playlist.owner.id === activeAccountId);
+
   const handleRetry = useCallback(() => {
     // Clear error and reset status
     setError(null);
@@ -606,70 +555,204 @@ export function SpotifyPlayer({ onPlaybackStateChange, onTrackChange }: SpotifyP
   return (
     <div className="p-8">
       <div className="flex justify-between items-center mb-6">
-        <h2 className="text-2xl font-bold text-brass">Your Vinyl Collection</h2>
+        <div>
+          <h2 className="text-2xl font-bold text-brass">Your Vinyl Collection</h2>
+          {collectionView === 'playlists' && userPlaylists.total !== null && (
+            <p className="text-sm text-brass-dark">
+              {userPlaylists.total} {userPlaylists.total === 1 ? 'playlist' : 'playlists'}
+            </p>
+          )}
+        </div>
         
-        {/* Logout button */}
+        {/* Account switcher and logout button */}
         {spotifyService.isLoggedIn() && (
-          <button
-            onClick={handleLogout}
-            className="flex items-center space-x-1 bg-amber-800/30 text-amber-400 hover:text-amber-300 py-1.5 px-3 rounded-md font-medium"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-              <path d="M9 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h4"></path>
-              <polyline points="16 17 21 12 16 7"></polyline>
-              <line x1="21" y1="12" x2="9" y2="12"></line>
-            </svg>
-            <span>Logout</span>
-          </button>
+          <div className="flex items-center gap-2">
+            <AccountSwitcher activeAccountId={activeAccountId} onSwitch={handleSwitchAccount} />
+            <button
+              onClick={handleLogout}
+              className="flex items-center space-x-1 bg-amber-800/30 text-amber-400 hover:text-amber-300 py-1.5 px-3 rounded-md font-medium"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M9 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h4"></path>
+                <polyline points="16 17 21 12 16 7"></polyline>
+                <line x1="21" y1="12" x2="9" y2="12"></line>
+              </svg>
+              <span>Logout</span>
+            </button>
+          </div>
         )}
       </div>
-      
-      {noPlaylists && (
-        <div className="bg-wood-light/10 backdrop-blur-sm rounded-lg p-6 text-center mb-6 min-h-[120px]">
-          <p className="text-brass-dark">
-            No playlists found in your Spotify account. Create some playlists and they'll appear here.
+
+      {isRemoteControl && (
+        <div className="flex items-start gap-3 bg-wood-light/10 backdrop-blur-sm rounded-lg p-4 mb-6" role="status">
+          <MonitorSpeaker className="h-5 w-5 mt-0.5 shrink-0 text-brass" aria-hidden="true" />
+          <p className="text-sm text-brass-dark">
+            <span className="font-semibold text-brass">Remote control mode.</span>{' '}
+            The Spotify player could not load in this browser, so music plays on your other
+            Spotify devices. Open Spotify on your phone, computer or speaker to pick one.
           </p>
-          <button
-            onClick={handleLogin}
-            className="mt-4 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors text-sm"
-          >
-            Refresh Playlists
-          </button>
         </div>
       )}
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {playlists.map((playlist) => (
-          <div
-            key={playlist.id}
-            className={`bg-wood-light/20 backdrop-blur-sm rounded-lg p-4 hover:shadow-lg transition-all cursor-pointer transform hover:scale-105 ${
-              currentPlaylist === playlist.id ? 'ring-2 ring-brass' : ''
-            }`}
-            onClick={() => playPlaylist(playlist.id)}
-          >
-            {playlist.type === 'liked-songs' ? (
-              // Special visual treatment for Liked Songs
-              <div className="w-full h-48 bg-gradient-to-br from-purple-700 to-blue-400 rounded-md mb-4 flex items-center justify-center">
-                <div className="text-white flex flex-col items-center">
-                  <svg className="w-20 h-20 mb-2" fill="currentColor" viewBox="0 0 24 24">
-                    <path d="M12 21.35l-1.45-1.32C5.4 15.36 2 12.28 2 8.5 2 5.42 4.42 3 7.5 3c1.74 0 3.41.81 4.5 2.09C13.09 3.81 14.76 3 16.5 3 19.58 3 22 5.42 22 8.5c0 3.78-3.4 6.86-8.55 11.54L12 21.35z" />
-                  </svg>
-                  <span className="font-semibold text-xl">Liked Songs</span>
+      {error && (
+        <p className="mb-6 text-sm text-red-500" role="alert">
+          {error}
+        </p>
+      )}
+      
+      <SearchPanel query={searchQuery} onQueryChange={setSearchQuery} />
+
+      {!isSearching && (
+        <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+          <div className="inline-flex rounded-full bg-wood-light/20 p-1" role="tablist" aria-label="Collection">
+            {(['playlists', 'records', 'podcasts', 'listening'] as const).map(view => (
+              <button
+                key={view}
+                role="tab"
+                aria-selected={collectionView === view}
+                onClick={() => setCollectionView(view)}
+                className={`rounded-full px-4 py-1.5 text-sm font-medium capitalize transition-colors ${
+                  collectionView === view ? 'bg-brass text-wood-dark' : 'text-brass-dark hover:text-brass'
+                }`}
+              >
+                {view}
+              </button>
+            ))}
+          </div>
+          {collectionView === 'playlists' && (
+            <button
+              onClick={() => setIsCreatingPlaylist(true)}
+              className="flex items-center gap-1.5 rounded-full bg-brass/20 px-3 py-1.5 text-sm font-medium text-brass hover:bg-brass/30"
+            >
+              <Plus className="h-4 w-4" aria-hidden="true" />
+              New playlist
+            </button>
+          )}
+        </div>
+      )}
+
+      <CreatePlaylistDialog
+        open={isCreatingPlaylist}
+        onOpenChange={setIsCreatingPlaylist}
+        onCreated={playlist => {
+          setIsCreatingPlaylist(false);
+          playlistsChangedRef.current = true;
+          setEditingPlaylistId(playlist.id);
+        }}
+      />
+      <PlaylistEditorDialog
+        playlistId={editingPlaylistId}
+        onClose={handleCloseEditor}
+        onChanged={() => {
+          playlistsChangedRef.current = true;
+        }}
+      />
+
+      {collectionView === 'records' && !isSearching && (
+        <RecordCollection
+          enabled={status === 'ready' && spotifyService.isLoggedIn()}
+          accountKey={activeAccountId ?? ''}
+        />
+      )}
+
+      {collectionView === 'podcasts' && !isSearching && (
+        <PodcastShelf
+          enabled={status === 'ready' && spotifyService.isLoggedIn()}
+          accountKey={activeAccountId ?? ''}
+        />
+      )}
+
+      {collectionView === 'listening' && !isSearching && (
+        <ListeningHistory
+          enabled={status === 'ready' && spotifyService.isLoggedIn()}
+          accountKey={activeAccountId ?? ''}
+        />
+      )}
+
+      {/* Kept mounted while searching or browsing other views so the loaded pages and scroll survive */}
+      <div className={isSearching || collectionView !== 'playlists' ? 'hidden' : undefined}>
+        {noPlaylists && (
+          <div className="bg-wood-light/10 backdrop-blur-sm rounded-lg p-6 text-center mb-6 min-h-[120px]">
+            <p className="text-brass-dark">
+              No playlists found in your Spotify account. Create some playlists and they'll appear here.
+            </p>
+            <button
+              onClick={handleLogin}
+              className="mt-4 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors text-sm"
+            >
+              Refresh Playlists
+            </button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {playlists.map((playlist) => (
+            <div
+              key={playlist.id}
+              className={`bg-wood-light/20 backdrop-blur-sm rounded-lg p-4 hover:shadow-lg transition-all cursor-pointer transform hover:scale-105 ${
+                currentPlaylist === playlist.id ? 'ring-2 ring-brass' : ''
+              }`}
+              onClick={() => playPlaylist(playlist.id)}
+            >
+              {isLikedSongs(playlist) ? (
+                // Special visual treatment for Liked Songs
+                <div className="relative w-full h-48 bg-gradient-to-br from-purple-700 to-blue-400 rounded-md mb-4 flex items-center justify-center">
+                  {/* Shuffle across the whole library rather than the first page */}
+                  <button
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      playPlaylist(playlist.id, { shuffle: true });
+                    }}
+                    className="absolute bottom-2 right-2 p-2 rounded-full bg-white/20 text-white hover:bg-white/30 transition-colors"
+                    aria-label="Shuffle Liked Songs"
+                    title="Shuffle Liked Songs"
+                  >
+                    <Shuffle className="w-5 h-5" aria-hidden="true" />
+                  </button>
+                  <div className="text-white flex flex-col items-center">
+                    <svg className="w-20 h-20 mb-2" fill="currentColor" viewBox="0 0 24 24">
+                      <path d="M12 21.35l-1.45-1.32C5.4 15.36 2 12.28 2 8.5 2 5.42 4.42 3 7.5 3c1.74 0 3.41.81 4.5 2.09C13.09 3.81 14.76 3 16.5 3 19.58 3 22 5.42 22 8.5c0 3.78-3.4 6.86-8.55 11.54L12 21.35z" />
+                    </svg>
+                    <span className="font-semibold text-xl">Liked Songs</span>
+                  </div>
+                </div>
+              ) : (
+                <div className="relative mb-4">
+                  <img
+                    src={playlist.images?.[0]?.url ? playlist.images[0].url : '/default-playlist.jpg'}
+                    alt={playlist.name}
+                    className="w-full h-48 object-cover rounded-md"
+                  />
+                  {canEditPlaylist(playlist) && (
+                    <button
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        setEditingPlaylistId(playlist.id);
+                      }}
+                      className="absolute bottom-2 right-2 p-2 rounded-full bg-black/40 text-white hover:bg-black/60 transition-colors"
+                      aria-label={`Edit ${playlist.name}`}
+                      title="Edit playlist"
+                    >
+                      <Pencil className="w-4 h-4" aria-hidden="true" />
+                    </button>
+                  )}
                 </div>
-              </div>
-            ) : (
-              <img
-                src={playlist.images?.[0]?.url ? playlist.images[0].url : '/default-playlist.jpg'}
-                alt={playlist.name}
-                className="w-full h-48 object-cover rounded-md mb-4"
-              />
-            )}
-            <h3 className="font-semibold text-lg text-brass">
-              {playlist.type === 'liked-songs' ? 'Liked Songs' : playlist.name}
-            </h3>
-            <p className="text-brass/80">{playlist.tracks?.total || 0} tracks</p>
+              )}
+              <h3 className="font-semibold text-lg text-brass">
+                {playlist.name}
+              </h3>
+              <p className="text-brass/80">{playlist.tracks?.total || 0} tracks</p>
+            </div>
+          ))}
+        </div>
+
+        {/* Scroll sentinel that pages in the next batch of playlists */}
+        <div ref={playlistSentinelRef} className="h-1" aria-hidden="true" />
+        {userPlaylists.isLoading && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-8 w-8 animate-spin text-brass" />
           </div>
-        ))}
+        )}
       </div>
     </div>
   );
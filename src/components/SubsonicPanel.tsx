@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  SUBSONIC_TOKEN_AUTH_UNSUPPORTED,
+  SUBSONIC_WRONG_CREDENTIALS,
+  SubsonicApiError
+} from '../integrations/subsonic/subsonic-client';
+import { DEFAULT_SUBSONIC_SERVER_URL, subsonicSource } from '../integrations/subsonic/subsonic-source';
+import { SourceCollectionGrid } from './SourceCollectionGrid';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+function signInErrorMessage(error: unknown): string {
+  if (error instanceof SubsonicApiError) {
+    if (error.code === SUBSONIC_WRONG_CREDENTIALS) return 'Wrong user name or password.';
+    if (error.code === SUBSONIC_TOKEN_AUTH_UNSUPPORTED) {
+      return 'This server does not accept token sign-in for your account (e.g. LDAP users).';
+    }
+    return `The server turned down the sign-in: ${error.message}`;
+  }
+  // fetch rejects with a TypeError for network, CORS and mixed-content failures
+  return 'Could not reach the server. Check the address, and that it allows requests from this site.';
+}
+
+// Sign-in form for a Subsonic-compatible server, then its playlists and albums
+export function SubsonicPanel() {
+  const [server, setServer] = useState(() => subsonicSource.getServer());
+  const [serverUrl, setServerUrl] = useState(server?.serverUrl ?? DEFAULT_SUBSONIC_SERVER_URL);
+  const [username, setUsername] = useState(server?.username ?? '');
+  const [password, setPassword] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subsonicSource.on('library', () => setServer(subsonicSource.getServer())), []);
+
+  const canSubmit = serverUrl.trim().length > 0 && username.trim().length > 0 && password.length > 0 && !isSigningIn;
+
+  const handleSignIn = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canSubmit) return;
+
+    setIsSigningIn(true);
+    setError(null);
+    try {
+      await subsonicSource.connect({ serverUrl, username: username.trim(), password });
+      setPassword('');
+    } catch (err) {
+      console.error('Subsonic sign-in failed:', err);
+      setError(signInErrorMessage(err));
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  if (!server) {
+    return (
+      <div className="flex flex-col items-center justify-center p-10 text-center">
+        <h3 className="text-2xl font-semibold text-brass mb-2">Connect Your Server</h3>
+        <p className="text-brass-dark mb-6 max-w-md">
+          Sign in to your Subsonic-compatible server, such as Navidrome, to play your own collection.
+          A sign-in token that works like your password is kept on this device until you sign out.
+        </p>
+        <form onSubmit={handleSignIn} className="grid w-full max-w-sm gap-4 text-left">
+          <div className="grid gap-2">
+            <Label htmlFor="subsonic-server" className="text-brass">Server address</Label>
+            <Input
+              id="subsonic-server"
+              value={serverUrl}
+              placeholder="https://music.example.com"
+              autoComplete="url"
+              onChange={event => setServerUrl(event.target.value)}
+              required
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="subsonic-username" className="text-brass">User name</Label>
+            <Input
+              id="subsonic-username"
+              value={username}
+              autoComplete="username"
+              onChange={event => setUsername(event.target.value)}
+              required
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="subsonic-password" className="text-brass">Password</Label>
+            <Input
+              id="subsonic-password"
+              type="password"
+              value={password}
+              autoComplete="current-password"
+              onChange={event => setPassword(event.target.value)}
+              required
+            />
+          </div>
+          {error && <p className="text-sm text-red-500" role="alert">{error}</p>}
+          <button
+            type="submit"
+            disabled={!canSubmit}
+            className="px-6 py-3 bg-brass text-wood-dark rounded-full hover:bg-brass-light transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSigningIn && <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />}
+            <span>Sign in</span>
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-brass">Your Vinyl Collection</h2>
+          <p className="text-sm text-brass-dark">
+            {server.username} on {server.serverUrl.replace(/^https?:\/\//, '')}
+          </p>
+        </div>
+        <button
+          onClick={() => subsonicSource.disconnect()}
+          className="bg-amber-800/30 text-amber-400 hover:text-amber-300 py-1.5 px-3 rounded-md font-medium"
+        >
+          Sign out
+        </button>
+      </div>
+
+      <SourceCollectionGrid source={subsonicSource} emptyMessage="There are no albums or playlists on this server yet." />
+    </div>
+  );
+}
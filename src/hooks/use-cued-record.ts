@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+import { spotifyService, type CuedRecord } from '../integrations/spotify';
+
+// The record waiting on the turntable for play to be pressed, if any
+export function useCuedRecord(): CuedRecord | null {
+  const [record, setRecord] = useState(() => spotifyService.getCuedRecord());
+
+  useEffect(() => spotifyService.on('cued', setRecord), []);
+
+  return record;
+}
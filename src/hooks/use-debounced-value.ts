@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// `value`, but only once it has stopped changing for `delayMs`
+export function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timeoutId);
+  }, [value, delayMs]);
+
+  return debounced;
+}
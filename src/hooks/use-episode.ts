@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { spotifyService } from '../integrations/spotify';
+import type { SpotifyEpisode } from '../integrations/spotify-models';
+
+// Full details of an episode, e.g. its description, which the player's
+// state does not carry. Null while loading or when there is no episode.
+export function useEpisode(episodeId: string | null): SpotifyEpisode | null {
+  const [episode, setEpisode] = useState<SpotifyEpisode | null>(null);
+
+  useEffect(() => {
+    setEpisode(null);
+    if (!episodeId) return;
+
+    const controller = new AbortController();
+    spotifyService.getEpisode(episodeId, controller.signal)
+      .then(details => {
+        if (!controller.signal.aborted) setEpisode(details);
+      })
+      .catch(error => {
+        if (!controller.signal.aborted) console.warn('Could not load episode details:', error);
+      });
+
+    return () => controller.abort();
+  }, [episodeId]);
+
+  return episode;
+}
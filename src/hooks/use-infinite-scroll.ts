@@ -0,0 +1,24 @@
+import { useEffect, useRef } from 'react';
+
+// Calls onReachEnd whenever the returned sentinel element scrolls into view.
+// The observer is recreated each time `enabled` flips back on, so a sentinel
+// that is still visible after a page loads triggers the next page as well.
+export function useInfiniteScroll<T extends Element>(onReachEnd: () => void, enabled: boolean) {
+  const sentinelRef = useRef<T>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !enabled) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        onReachEnd();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [onReachEnd, enabled]);
+
+  return sentinelRef;
+}
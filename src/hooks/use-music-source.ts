@@ -0,0 +1,12 @@
+import { useEffect, useState } from 'react';
+import { musicSources } from '../integrations/music-sources';
+import type { MusicSource } from '../integrations/music-source';
+
+// The music source the turntable is playing from
+export function useMusicSource(): MusicSource {
+  const [source, setSource] = useState(() => musicSources.getActive());
+
+  useEffect(() => musicSources.on('change', setSource), []);
+
+  return source;
+}
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Paging } from '../integrations/spotify-models';
+
+export interface PagedCollection<T> {
+  items: T[];
+  // Total reported by the API, null until the first page arrives
+  total: number | null;
+  hasMore: boolean;
+  isLoading: boolean;
+  error: Error | null;
+  loadMore: () => Promise<void>;
+  reset: () => void;
+}
+
+// Drives a paging async iterator one page at a time. The first page is
+// requested as soon as `enabled` is true; call loadMore() for each further
+// page. Changing `key` starts over with a fresh iterator, and the signal
+// passed to createPages is aborted so the old iterator's request is dropped.
+export function usePagedCollection<T>(
+  createPages: (signal: AbortSignal) => AsyncIterator<Paging<T>>,
+  enabled: boolean = true,
+  key: string = ''
+): PagedCollection<T> {
+  const [items, setItems] = useState<T[]>([]);
+  const [total, setTotal] = useState<number | null>(null);
+  const [hasMore, setHasMore] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const createPagesRef = useRef(createPages);
+  const iteratorRef = useRef<AsyncIterator<Paging<T>> | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const loadingRef = useRef(false);
+  // Bumped on every reset so responses for an abandoned iterator are ignored
+  const generationRef = useRef(0);
+
+  useEffect(() => {
+    createPagesRef.current = createPages;
+  }, [createPages]);
+
+  const loadMore = useCallback(async () => {
+    const iterator = iteratorRef.current;
+    if (!iterator || loadingRef.current) return;
+
+    const generation = generationRef.current;
+    loadingRef.current = true;
+    setIsLoading(true);
+
+    try {
+      const result = await iterator.next();
+      if (generation !== generationRef.current) return;
+
+      if (result.done) {
+        iteratorRef.current = null;
+        setHasMore(false);
+        return;
+      }
+
+      const page = result.value;
+      setItems(prev => [...prev, ...page.items]);
+      setTotal(page.total);
+      setHasMore(page.next !== null);
+    } catch (err) {
+      if (generation !== generationRef.current) return;
+      console.error('Failed to load page:', err);
+      iteratorRef.current = null;
+      setError(err instanceof Error ? err : new Error(String(err)));
+      setHasMore(false);
+    } finally {
+      if (generation === generationRef.current) {
+        loadingRef.current = false;
+        setIsLoading(false);
+      }
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    generationRef.current++;
+    abortRef.current?.abort();
+    abortRef.current = new AbortController();
+    iteratorRef.current = createPagesRef.current(abortRef.current.signal);
+    loadingRef.current = false;
+    setItems([]);
+    setTotal(null);
+    setHasMore(true);
+    setIsLoading(false);
+    setError(null);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    reset();
+    loadMore();
+  }, [enabled, key, reset, loadMore]);
+
+  // Cancel any in-flight page when the component goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  return { items, total, hasMore, isLoading, error, loadMore, reset };
+}
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { spotifyService } from '../integrations/spotify';
+import type { SpotifyQueue } from '../integrations/spotify-models';
+
+export interface PlayQueue {
+  queue: SpotifyQueue | null;
+  isLoading: boolean;
+  error: Error | null;
+  refresh: () => void;
+}
+
+// The user's play queue from /me/player/queue. Refetched when the track
+// changes and when something is queued from this app; pass enabled=false
+// while the queue is not on screen to skip the requests.
+export function usePlayQueue(enabled = true): PlayQueue {
+  const [queue, setQueue] = useState<SpotifyQueue | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const refresh = useCallback(async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setIsLoading(true);
+    try {
+      const next = await spotifyService.getQueue(controller.signal);
+      if (controller.signal.aborted) return;
+      setQueue(next);
+      setError(null);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Error loading play queue:', err);
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      if (!controller.signal.aborted) {
+        setIsLoading(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    refresh();
+
+    // State events fire for every pause and seek too; only a new track moves the queue
+    let currentUri = spotifyService.getPlaybackState()?.track_window.current_track.uri ?? null;
+    const unsubscribeState = spotifyService.on('state', state => {
+      const uri = state?.track_window.current_track.uri ?? null;
+      if (uri !== currentUri) {
+        currentUri = uri;
+        refresh();
+      }
+    });
+    const unsubscribeQueued = spotifyService.on('queued', () => refresh());
+
+    return () => {
+      unsubscribeState();
+      unsubscribeQueued();
+      controllerRef.current?.abort();
+    };
+  }, [enabled, refresh]);
+
+  return { queue, isLoading, error, refresh };
+}
@@ -0,0 +1,38 @@
+import { useEffect, useRef, useState } from 'react';
+
+export interface PlaybackPosition {
+  positionMs: number;
+  durationMs: number;
+}
+
+// The SDK only reports the position when playback state changes (play, pause,
+// seek, track change), so extrapolate it from the last report while a track
+// is playing. Updates once per animation frame; use it in a small component
+// so only that component re-renders.
+export function usePlaybackPosition(state: Spotify.PlaybackState | null): PlaybackPosition {
+  const [positionMs, setPositionMs] = useState(state?.position ?? 0);
+  // Where the last report put the playhead and when we received it
+  const anchor = useRef({ position: 0, receivedAt: 0 });
+
+  const durationMs = state?.duration ?? 0;
+  const isPlaying = state !== null && !state.paused;
+
+  useEffect(() => {
+    anchor.current = { position: state?.position ?? 0, receivedAt: performance.now() };
+    setPositionMs(state?.position ?? 0);
+  }, [state]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frameId = requestAnimationFrame(function tick(now) {
+      const elapsed = now - anchor.current.receivedAt;
+      setPositionMs(Math.min(durationMs, anchor.current.position + elapsed));
+      frameId = requestAnimationFrame(tick);
+    });
+
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, durationMs]);
+
+  return { positionMs, durationMs };
+}
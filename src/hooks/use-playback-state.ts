@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { useMusicSource } from './use-music-source';
+
+// Live playback state of the active music source, following it when the
+// listener switches sources. Any number of components can use this; each
+// holds its own subscription.
+export function usePlaybackState(): Spotify.PlaybackState | null {
+  const source = useMusicSource();
+  const [state, setState] = useState(() => source.getPlaybackState());
+
+  useEffect(() => {
+    setState(source.getPlaybackState());
+    return source.on('state', setState);
+  }, [source]);
+
+  return state;
+}
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { spotifyService } from '../integrations/spotify';
+import type { PlaylistEditor, PlaylistEditorState } from '../integrations/playlist-editor';
+
+export interface PlaylistEditorHandle {
+  editor: PlaylistEditor | null;
+  state: PlaylistEditorState | null;
+  // Set when the playlist could not be opened
+  error: Error | null;
+}
+
+// Opens a playlist for editing and follows the editor's changes. Pass null
+// to close it.
+export function usePlaylistEditor(playlistId: string | null): PlaylistEditorHandle {
+  const [editor, setEditor] = useState<PlaylistEditor | null>(null);
+  const [state, setState] = useState<PlaylistEditorState | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    setEditor(null);
+    setState(null);
+    setError(null);
+    if (!playlistId) return;
+
+    const controller = new AbortController();
+    let unsubscribe: (() => void) | null = null;
+    spotifyService.openPlaylistEditor(playlistId, controller.signal)
+      .then(opened => {
+        if (controller.signal.aborted) return;
+        setEditor(opened);
+        setState(opened.getState());
+        unsubscribe = opened.on('change', setState);
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error('Error opening playlist:', err);
+        setError(err instanceof Error ? err : new Error(String(err)));
+      });
+
+    return () => {
+      controller.abort();
+      unsubscribe?.();
+    };
+  }, [playlistId]);
+
+  return { editor, state, error };
+}
@@ -0,0 +1,25 @@
+import { useCallback } from 'react';
+import { toast } from 'sonner';
+import { NoPlaybackDeviceError, spotifyService, type CuedRecord } from '../integrations/spotify';
+
+// Play-now and put-on-the-turntable actions with user-facing feedback
+export function useRecordActions() {
+  const play = useCallback(async (record: CuedRecord) => {
+    try {
+      await spotifyService.playUri(record.uri, record.contextUri, record.positionMs);
+    } catch (err) {
+      toast.error(
+        err instanceof NoPlaybackDeviceError
+          ? 'No Spotify device is available. Open Spotify on a device and try again.'
+          : `Could not play "${record.name}"`
+      );
+    }
+  }, []);
+
+  const cue = useCallback((record: CuedRecord) => {
+    spotifyService.cue(record);
+    toast.success(`"${record.name}" is on the turntable. Press play to start it.`);
+  }, []);
+
+  return { play, cue };
+}
@@ -0,0 +1,12 @@
+import { useEffect, useState } from 'react';
+import { spotifyService } from '../integrations/spotify';
+import type { SpotifyDevice } from '../integrations/spotify-models';
+
+// The Spotify Connect device playing when it is not this browser, or null
+export function useRemoteDevice(): SpotifyDevice | null {
+  const [device, setDevice] = useState(() => spotifyService.getRemoteDevice());
+
+  useEffect(() => spotifyService.on('remote_device', setDevice), []);
+
+  return device;
+}
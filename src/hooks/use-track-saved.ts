@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from 'react';
+import { spotifyService } from '../integrations/spotify';
+
+export interface TrackSaved {
+  // Null while unknown: no track, or the check is still in flight
+  saved: boolean | null;
+  isPending: boolean;
+  toggle: () => Promise<void>;
+}
+
+// Whether a track is in Liked Songs, checked whenever the track changes and
+// kept current as it is liked or unliked anywhere in the app
+export function useTrackSaved(trackId: string | null): TrackSaved {
+  const [saved, setSaved] = useState<boolean | null>(null);
+  const [isPending, setIsPending] = useState(false);
+
+  useEffect(() => {
+    setSaved(null);
+    if (!trackId) return;
+
+    const controller = new AbortController();
+    spotifyService.isTrackSaved(trackId, controller.signal)
+      .then(result => {
+        if (!controller.signal.aborted) setSaved(result);
+      })
+      .catch(error => {
+        if (!controller.signal.aborted) console.warn('Could not check Liked Songs:', error);
+      });
+
+    const unsubscribe = spotifyService.on('track_saved', event => {
+      if (event.trackId === trackId) setSaved(event.saved);
+    });
+
+    return () => {
+      controller.abort();
+      unsubscribe();
+    };
+  }, [trackId]);
+
+  const toggle = useCallback(async () => {
+    if (!trackId || saved === null || isPending) return;
+
+    setIsPending(true);
+    try {
+      await spotifyService.setTrackSaved(trackId, !saved);
+    } finally {
+      setIsPending(false);
+    }
+  }, [trackId, saved, isPending]);
+
+  return { saved, isPending, toggle };
+}
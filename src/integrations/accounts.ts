@@ -0,0 +1,62 @@
+// Profiles of every Spotify account signed in on this browser. Only the public
+// profile is kept here; each account's tokens live in their own token store.
+
+export interface SpotifyAccount {
+  // Spotify user ID from /v1/me
+  id: string;
+  displayName: string;
+  avatarUrl: string | null;
+}
+
+const ACCOUNTS_KEY = 'spotify_accounts';
+const ACTIVE_ACCOUNT_KEY = 'spotify_active_account';
+
+export class AccountRegistry {
+  constructor(private readonly storage: Storage = localStorage) {}
+
+  list(): SpotifyAccount[] {
+    try {
+      const stored = this.storage.getItem(ACCOUNTS_KEY);
+      return stored ? (JSON.parse(stored) as SpotifyAccount[]) : [];
+    } catch (error) {
+      console.error('Error reading stored Spotify accounts:', error);
+      return [];
+    }
+  }
+
+  get(id: string): SpotifyAccount | null {
+    return this.list().find(account => account.id === id) ?? null;
+  }
+
+  // Add a new account or update the profile of a known one
+  upsert(account: SpotifyAccount): void {
+    const accounts = this.list();
+    const index = accounts.findIndex(existing => existing.id === account.id);
+    if (index === -1) {
+      accounts.push(account);
+    } else {
+      accounts[index] = account;
+    }
+    this.storage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+  }
+
+  remove(id: string): void {
+    const accounts = this.list().filter(account => account.id !== id);
+    this.storage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+    if (this.getActiveId() === id) {
+      this.setActiveId(null);
+    }
+  }
+
+  getActiveId(): string | null {
+    return this.storage.getItem(ACTIVE_ACCOUNT_KEY);
+  }
+
+  setActiveId(id: string | null): void {
+    if (id) {
+      this.storage.setItem(ACTIVE_ACCOUNT_KEY, id);
+    } else {
+      this.storage.removeItem(ACTIVE_ACCOUNT_KEY);
+    }
+  }
+}
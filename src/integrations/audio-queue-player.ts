@@ -0,0 +1,293 @@
+import type { RepeatState } from './spotify-api';
+import { TypedEmitter } from '../lib/typed-emitter';
+
+// "Previous" restarts the song once it has played this long, as in Spotify
+const RESTART_THRESHOLD_MS = 3000;
+
+// Indexed by the SDK's repeat_mode
+const REPEAT_MODES: RepeatState[] = ['off', 'context', 'track'];
+
+// Audio element events after which the reported state may have changed
+const STATE_EVENTS = ['play', 'pause', 'seeked', 'loadedmetadata', 'durationchange'] as const;
+
+export interface AudioTrack {
+  uri: string;
+  name: string;
+  artist: string;
+  // Zero when unknown; the audio element reports it once the file loads
+  durationMs: number;
+  // Called just before the track plays, so object URLs and signed stream
+  // URLs are only created for what is actually played
+  resolveSrc: () => Promise<string>;
+}
+
+interface AudioQueuePlayerEvents {
+  state: Spotify.PlaybackState | null;
+  // A track began playing from the top, including each repeat of it
+  track_started: AudioTrack;
+  // A track played through to its end
+  track_ended: AudioTrack;
+}
+
+function isInterruptedPlay(error: unknown): boolean {
+  // play() rejects like this when the next track's source replaces the one
+  // still loading; the newer request carries on
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function isUnplayableSource(error: unknown): boolean {
+  // play() rejects like this when the source fails to load, which also fires
+  // the audio element's error event; the listener for that skips the track
+  return error instanceof DOMException && error.name === 'NotSupportedError';
+}
+
+// Plays a list of tracks in order through an HTMLAudioElement, for music
+// sources without a player of their own. State is reported in the Web
+// Playback SDK's shape, with shuffle and repeat working as they do in Spotify.
+export class AudioQueuePlayer {
+  private events = new TypedEmitter<AudioQueuePlayerEvents>();
+  private contextUri = '';
+  private tracks: AudioTrack[] = [];
+  // Indexes into `tracks`, in the order they play
+  private order: number[] = [];
+  private position = -1;
+  private shuffle = false;
+  private repeat: RepeatState = 'off';
+  private currentSrc: string | null = null;
+  // Bumped on every load, so a slow resolveSrc for a skipped track is dropped
+  private loadId = 0;
+  // The load whose track_started has been emitted
+  private startedLoadId = -1;
+  // Tracks that failed to load since one last played, so a queue where
+  // nothing plays is not skipped through forever
+  private failuresInARow = 0;
+  // Whether the current track was loaded to play, which a skip past it keeps
+  private autoplay = false;
+
+  constructor(private readonly audio: HTMLAudioElement = new Audio()) {
+    for (const type of STATE_EVENTS) {
+      audio.addEventListener(type, () => this.emitState());
+    }
+    audio.addEventListener('playing', () => {
+      const track = this.currentTrack();
+      this.failuresInARow = 0;
+      if (track && this.startedLoadId !== this.loadId) {
+        this.startedLoadId = this.loadId;
+        this.events.emit('track_started', track);
+      }
+    });
+    audio.addEventListener('ended', () => {
+      const track = this.currentTrack();
+      if (track) this.events.emit('track_ended', track);
+      this.handleEnded().catch(error => console.error('Error starting the next track:', error));
+    });
+    audio.addEventListener('error', () => {
+      console.error(`Could not play "${this.currentTrack()?.name}":`, audio.error?.message);
+      if (!this.currentTrack() || ++this.failuresInARow >= this.order.length) {
+        this.emitState();
+        return;
+      }
+      this.advance(this.autoplay).catch(error => console.error('Error skipping to the next track:', error));
+    });
+  }
+
+  on<K extends keyof AudioQueuePlayerEvents>(event: K, listener: (payload: AudioQueuePlayerEvents[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  getState(): Spotify.PlaybackState | null {
+    const track = this.currentTrack();
+    if (!track) return null;
+
+    const durationMs = Number.isFinite(this.audio.duration) ? this.audio.duration * 1000 : track.durationMs;
+    return {
+      context: { uri: this.contextUri, metadata: null },
+      disallows: {
+        pausing: false,
+        peeking_next: false,
+        peeking_prev: false,
+        resuming: false,
+        seeking: durationMs === 0,
+        skipping_next: false,
+        skipping_prev: false,
+        toggling_repeat_context: false,
+        toggling_repeat_track: false,
+        toggling_shuffle: false
+      },
+      track_window: {
+        current_track: {
+          // Only Spotify tracks have Spotify IDs
+          id: null,
+          name: track.name,
+          uri: track.uri,
+          type: 'track',
+          artists: [{ name: track.artist, uri: '' }]
+        }
+      },
+      paused: this.audio.paused,
+      position: Math.round(this.audio.currentTime * 1000),
+      duration: Math.round(durationMs),
+      repeat_mode: REPEAT_MODES.indexOf(this.repeat),
+      shuffle: this.shuffle
+    };
+  }
+
+  // Replace the queue with `tracks` and start playing at `startIndex`
+  async play(contextUri: string, tracks: AudioTrack[], startIndex = 0): Promise<void> {
+    this.contextUri = contextUri;
+    this.tracks = tracks;
+    this.order = tracks.map((_, index) => index);
+    this.position = startIndex;
+    this.failuresInARow = 0;
+    if (this.shuffle) {
+      // Nothing has played yet, so every other track is up for shuffling
+      this.order = [startIndex, ...this.order.filter(index => index !== startIndex)];
+      this.position = 0;
+      this.shuffleUpcoming();
+    }
+    await this.load(true);
+  }
+
+  async togglePlayback(): Promise<void> {
+    if (!this.currentTrack()) return;
+    if (this.audio.paused) {
+      await this.resume();
+    } else {
+      this.audio.pause();
+    }
+  }
+
+  async pause(): Promise<void> {
+    this.audio.pause();
+  }
+
+  async seek(positionMs: number): Promise<void> {
+    if (!this.currentTrack()) return;
+    this.audio.currentTime = Math.max(0, positionMs) / 1000;
+  }
+
+  async nextTrack(): Promise<void> {
+    if (!this.currentTrack()) return;
+    await this.advance(!this.audio.paused);
+  }
+
+  async previousTrack(): Promise<void> {
+    if (!this.currentTrack()) return;
+    if (this.audio.currentTime * 1000 > RESTART_THRESHOLD_MS || this.position === 0) {
+      this.audio.currentTime = 0;
+      return;
+    }
+    this.position--;
+    await this.load(!this.audio.paused);
+  }
+
+  setShuffle(enabled: boolean): void {
+    this.shuffle = enabled;
+    if (enabled) {
+      this.shuffleUpcoming();
+    } else {
+      const current = this.order[this.position];
+      this.order = this.tracks.map((_, index) => index);
+      this.position = current ?? -1;
+    }
+    this.emitState();
+  }
+
+  setRepeatMode(mode: RepeatState): void {
+    this.repeat = mode;
+    this.emitState();
+  }
+
+  // Drop the queue and release the current track's source
+  stop(): void {
+    this.loadId++;
+    this.audio.pause();
+    this.audio.removeAttribute('src');
+    this.audio.load();
+    this.release(this.currentSrc);
+    this.currentSrc = null;
+    this.tracks = [];
+    this.order = [];
+    this.position = -1;
+    this.events.emit('state', null);
+  }
+
+  private currentTrack(): AudioTrack | null {
+    const index = this.order[this.position];
+    return index === undefined ? null : this.tracks[index];
+  }
+
+  // Keep what has played and the current track, so "previous" still steps
+  // back through them, and shuffle everything after it
+  private shuffleUpcoming(): void {
+    if (this.order[this.position] === undefined) return;
+
+    const rest = this.order.slice(this.position + 1);
+    for (let i = rest.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [rest[i], rest[j]] = [rest[j], rest[i]];
+    }
+    this.order = [...this.order.slice(0, this.position + 1), ...rest];
+  }
+
+  // At the end of the queue go back to the start, paused unless repeating
+  private async advance(keepPlaying: boolean): Promise<void> {
+    if (this.position + 1 < this.order.length) {
+      this.position++;
+      await this.load(keepPlaying);
+    } else {
+      this.position = 0;
+      await this.load(keepPlaying && this.repeat === 'context');
+    }
+  }
+
+  private async handleEnded(): Promise<void> {
+    if (this.repeat === 'track') {
+      this.startedLoadId = -1;
+      this.audio.currentTime = 0;
+      await this.resume();
+    } else {
+      await this.advance(true);
+    }
+  }
+
+  private async load(autoplay: boolean): Promise<void> {
+    const track = this.currentTrack();
+    if (!track) return;
+
+    const loadId = ++this.loadId;
+    const src = await track.resolveSrc();
+    if (loadId !== this.loadId) {
+      this.release(src);
+      return;
+    }
+
+    this.release(this.currentSrc);
+    this.currentSrc = src;
+    this.autoplay = autoplay;
+    this.audio.src = src;
+    if (autoplay) {
+      await this.resume();
+    } else {
+      this.emitState();
+    }
+  }
+
+  private async resume(): Promise<void> {
+    try {
+      await this.audio.play();
+    } catch (error) {
+      if (!isInterruptedPlay(error) && !isUnplayableSource(error)) throw error;
+    }
+  }
+
+  private release(src: string | null): void {
+    if (src?.startsWith('blob:')) {
+      URL.revokeObjectURL(src);
+    }
+  }
+
+  private emitState(): void {
+    this.events.emit('state', this.getState());
+  }
+}
@@ -0,0 +1,204 @@
+import type { SpotifyApiClient } from './spotify-api';
+
+// Saved tracks are fetched in pages of this size and cached by page index
+const PAGE_SIZE = 50;
+// Number of track URIs handed to /me/player/play at a time
+const WINDOW_SIZE = 50;
+// Refill the window once playback is this many tracks away from its end
+const REFILL_THRESHOLD = 3;
+// Pages requested at once when a shuffled window spans many of them
+const MAX_CONCURRENT_PAGES = 4;
+
+// Randomise an array in place (Fisher-Yates)
+function shuffleInPlace<T>(items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+interface QueueEntry {
+  offset: number;
+  uri: string;
+}
+
+// Liked Songs has no context URI we can play, so the Web API only accepts it as
+// an explicit list of track URIs. This queue plays the collection through a
+// sliding window of URIs: when playback nears the end of the window it is
+// re-seeded with the remaining tracks plus the next batch from the library.
+//
+// The play order is a list of library offsets. In shuffle mode that list is
+// permuted across the whole collection, and only the pages that contain the
+// next offsets are fetched.
+export class LikedSongsQueue {
+  private pages = new Map<number, Promise<string[]>>();
+  private order: number[] = [];
+  // Index into `order` of the first track not yet handed to the player
+  private cursor = 0;
+  private window: string[] = [];
+  // Library offset of each track in `window`
+  private windowOffsets: number[] = [];
+  private refilling = false;
+
+  private constructor(
+    private readonly api: SpotifyApiClient,
+    private readonly total: number,
+    private shuffleEnabled: boolean
+  ) {}
+
+  static async create(api: SpotifyApiClient, shuffle: boolean): Promise<LikedSongsQueue> {
+    // The first page tells us the size of the library and is usually needed anyway
+    const firstPage = await api.getMySavedTracks({ limit: PAGE_SIZE });
+    const queue = new LikedSongsQueue(api, firstPage.total, shuffle);
+    queue.pages.set(0, Promise.resolve(firstPage.items.map(item => item.track.uri)));
+    return queue;
+  }
+
+  get isEmpty(): boolean {
+    return this.total === 0;
+  }
+
+  get shuffle(): boolean {
+    return this.shuffleEnabled;
+  }
+
+  // Whether the player is currently playing a track from this queue
+  owns(state: Spotify.PlaybackState): boolean {
+    return this.window.includes(state.track_window.current_track.uri);
+  }
+
+  // Start playing the collection from the top of the play order
+  async start(deviceId?: string): Promise<void> {
+    this.order = Array.from({ length: this.total }, (_, offset) => offset);
+    if (this.shuffleEnabled) {
+      shuffleInPlace(this.order);
+    }
+    this.cursor = 0;
+    this.setWindow(await this.takeNext(WINDOW_SIZE));
+
+    // Our own order replaces Spotify's shuffle, which would only mix the window
+    if (this.shuffleEnabled) {
+      await this.api.setShuffle(false, deviceId);
+    }
+    await this.api.startPlayback({ deviceId, uris: this.window });
+  }
+
+  // Turn shuffle on or off mid-collection. The current track keeps playing
+  // and everything not played yet is reordered behind it.
+  async setShuffle(enabled: boolean, state: Spotify.PlaybackState, deviceId?: string): Promise<void> {
+    const index = this.window.indexOf(state.track_window.current_track.uri);
+    if (index === -1) return;
+
+    const currentOffset = this.windowOffsets[index];
+    const remaining = [...this.windowOffsets.slice(index + 1), ...this.order.slice(this.cursor)];
+    if (enabled) {
+      shuffleInPlace(remaining);
+    } else {
+      // Back to library order, carrying on from the current track
+      remaining.sort((a, b) => a - b);
+      const after = remaining.findIndex(offset => offset > currentOffset);
+      if (after > 0) {
+        remaining.push(...remaining.splice(0, after));
+      }
+    }
+
+    this.shuffleEnabled = enabled;
+    this.order = remaining;
+    this.cursor = 0;
+    const next = await this.takeNext(WINDOW_SIZE - 1);
+    this.setWindow([{ offset: currentOffset, uri: this.window[index] }, ...next]);
+
+    await this.api.startPlayback({
+      deviceId,
+      uris: this.window,
+      offset: { position: 0 },
+      positionMs: await this.currentPosition(state)
+    });
+  }
+
+  // Called for every playback state update while the queue is active. The
+  // device is omitted when it is a Connect device that reports no ID.
+  async handleStateChange(state: Spotify.PlaybackState, deviceId?: string): Promise<void> {
+    if (this.refilling || state.paused || this.cursor >= this.order.length) return;
+
+    const index = this.window.indexOf(state.track_window.current_track.uri);
+    if (index === -1 || index < this.window.length - REFILL_THRESHOLD) return;
+
+    this.refilling = true;
+    try {
+      const upcoming = this.window.slice(index);
+      const more = await this.takeNext(WINDOW_SIZE - upcoming.length);
+      if (more.length === 0) return;
+
+      console.log(`Loading ${more.length} more liked songs into the play window`);
+      this.setWindow([
+        ...upcoming.map((uri, i) => ({ offset: this.windowOffsets[index + i], uri })),
+        ...more
+      ]);
+      await this.api.startPlayback({
+        deviceId,
+        uris: this.window,
+        offset: { position: 0 },
+        positionMs: await this.currentPosition(state)
+      });
+    } catch (error) {
+      console.error('Error loading more liked songs:', error);
+    } finally {
+      this.refilling = false;
+    }
+  }
+
+  private setWindow(entries: QueueEntry[]): void {
+    this.window = entries.map(entry => entry.uri);
+    this.windowOffsets = entries.map(entry => entry.offset);
+  }
+
+  // Fetching pages can take a while, so the track has played on since `state`
+  // was reported. Ask again just before restarting playback.
+  private async currentPosition(state: Spotify.PlaybackState): Promise<number> {
+    try {
+      const playback = await this.api.getPlaybackState();
+      if (playback?.item?.uri === state.track_window.current_track.uri && playback.progress_ms !== null) {
+        return playback.progress_ms;
+      }
+    } catch (error) {
+      console.warn('Could not read the current playback position:', error);
+    }
+    return state.position;
+  }
+
+  private async takeNext(count: number): Promise<QueueEntry[]> {
+    const offsets = this.order.slice(this.cursor, this.cursor + count);
+    // A shuffled window can touch a different page for every track, so load
+    // the pages a few at a time rather than all at once
+    const pageIndexes = [...new Set(offsets.map(offset => Math.floor(offset / PAGE_SIZE)))];
+    for (let i = 0; i < pageIndexes.length; i += MAX_CONCURRENT_PAGES) {
+      await Promise.all(pageIndexes.slice(i, i + MAX_CONCURRENT_PAGES).map(pageIndex => this.loadPage(pageIndex)));
+    }
+    const uris = await Promise.all(offsets.map(offset => this.uriAt(offset)));
+    this.cursor += offsets.length;
+    return offsets
+      .map((offset, i) => ({ offset, uri: uris[i] }))
+      .filter((entry): entry is QueueEntry => entry.uri !== null);
+  }
+
+  private loadPage(pageIndex: number): Promise<string[]> {
+    let page = this.pages.get(pageIndex);
+    if (!page) {
+      page = this.api
+        .getMySavedTracks({ limit: PAGE_SIZE, offset: pageIndex * PAGE_SIZE })
+        .then(result => result.items.map(item => item.track.uri));
+      this.pages.set(pageIndex, page);
+      // Let a failed page be retried on the next refill
+      page.catch(() => this.pages.delete(pageIndex));
+    }
+    return page;
+  }
+
+  private async uriAt(offset: number): Promise<string | null> {
+    const page = await this.loadPage(Math.floor(offset / PAGE_SIZE));
+    // The library may have shrunk since the total was read
+    return page[offset % PAGE_SIZE] ?? null;
+  }
+}
@@ -0,0 +1,334 @@
+// Reads the tags the record collection needs from audio files: ID3v2.3/2.4
+// (with ID3v1 as a fallback) for MP3, FLAC metadata blocks, and Vorbis
+// comments in Ogg Vorbis and Opus. Only the parts of a file holding tags are
+// read, never the audio. Other formats (e.g. M4A) get no tags, and the
+// library falls back to file and folder names for them.
+
+export interface AudioPicture {
+  mimeType: string;
+  data: Uint8Array<ArrayBuffer>;
+}
+
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  albumArtist?: string;
+  album?: string;
+  year?: string;
+  trackNumber?: number;
+  discNumber?: number;
+  picture?: AudioPicture;
+}
+
+interface TaggedPicture extends AudioPicture {
+  // ID3/FLAC picture type; 3 is the front cover
+  type: number;
+}
+
+const FRONT_COVER = 3;
+// Embedded cover art makes up most of a tag; never read more than this
+const MAX_TAG_BYTES = 16 * 1024 * 1024;
+// Ogg comment headers are read in growing chunks starting at this size
+const OGG_INITIAL_READ_BYTES = 256 * 1024;
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder('utf-8');
+const utf16le = new TextDecoder('utf-16le');
+const utf16be = new TextDecoder('utf-16be');
+
+async function readBytes(file: Blob, start: number, end: number): Promise<Uint8Array<ArrayBuffer>> {
+  return new Uint8Array(await file.slice(start, end).arrayBuffer());
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+// "3/12" is track 3 of 12
+function parseNumber(value: string | undefined): number | undefined {
+  const number = parseInt(value ?? '', 10);
+  return Number.isNaN(number) ? undefined : number;
+}
+
+// Tags may hold several NUL-separated values; the first one is enough
+function firstValue(text: string): string | undefined {
+  return text.split('\0')[0].trim() || undefined;
+}
+
+// Prefer the front cover, otherwise keep the first picture found
+function preferCover(current: TaggedPicture | null, found: TaggedPicture | null): TaggedPicture | null {
+  if (!current) return found;
+  return found?.type === FRONT_COVER && current.type !== FRONT_COVER ? found : current;
+}
+
+function withoutType(picture: TaggedPicture | null): AudioPicture | undefined {
+  return picture ? { mimeType: picture.mimeType, data: picture.data } : undefined;
+}
+
+// ID3v2
+
+function synchsafe(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] & 0x7f) << 21) | ((bytes[offset + 1] & 0x7f) << 14) |
+    ((bytes[offset + 2] & 0x7f) << 7) | (bytes[offset + 3] & 0x7f);
+}
+
+function uint32(bytes: Uint8Array, offset: number): number {
+  return new DataView(bytes.buffer, bytes.byteOffset + offset, 4).getUint32(0);
+}
+
+// Undo unsynchronisation: every 0xFF 0x00 pair stands for a lone 0xFF
+function removeUnsync(bytes: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(bytes.length);
+  let length = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    result[length++] = bytes[i];
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++;
+  }
+  return result.subarray(0, length);
+}
+
+// By the encoding byte that starts text frames
+function decodeId3Text(bytes: Uint8Array, encoding: number): string {
+  switch (encoding) {
+    case 1:
+      if (bytes[0] === 0xfe && bytes[1] === 0xff) return utf16be.decode(bytes.subarray(2));
+      return utf16le.decode(bytes);
+    case 2:
+      return utf16be.decode(bytes);
+    case 3:
+      return utf8.decode(bytes);
+    default:
+      return latin1.decode(bytes);
+  }
+}
+
+// Offset just past the NUL that ends a string starting at `start`
+function skipTerminated(bytes: Uint8Array, start: number, encoding: number): number {
+  const width = encoding === 1 || encoding === 2 ? 2 : 1;
+  for (let i = start; i + width <= bytes.length; i += width) {
+    if (bytes[i] === 0 && (width === 1 || bytes[i + 1] === 0)) return i + width;
+  }
+  return bytes.length;
+}
+
+function parseApic(frame: Uint8Array<ArrayBuffer>): TaggedPicture {
+  const encoding = frame[0];
+  const mimeEnd = skipTerminated(frame, 1, 0);
+  const mimeType = latin1.decode(frame.subarray(1, mimeEnd - 1)) || 'image/jpeg';
+  const type = frame[mimeEnd];
+  const dataStart = skipTerminated(frame, mimeEnd + 1, encoding);
+  return { mimeType, type, data: frame.slice(dataStart) };
+}
+
+// `tag` is the whole tag, header included
+function parseId3v2(tag: Uint8Array<ArrayBuffer>): AudioTags {
+  const version = tag[3];
+  if (version !== 3 && version !== 4) return {};
+
+  const flags = tag[5];
+  let body = tag.subarray(10);
+  if (version === 3 && flags & 0x80) body = removeUnsync(body);
+  let offset = 0;
+  if (flags & 0x40) {
+    offset = version === 4 ? synchsafe(body, 0) : uint32(body, 0) + 4;
+  }
+
+  const text: Record<string, string | undefined> = {};
+  let picture: TaggedPicture | null = null;
+  while (offset + 10 <= body.length) {
+    const id = ascii(body, offset, 4);
+    // Padding, or the end of the frames
+    if (!/^[A-Z0-9]{4}$/.test(id)) break;
+
+    const size = version === 4 ? synchsafe(body, offset + 4) : uint32(body, offset + 4);
+    const formatFlags = body[offset + 9];
+    let frame = body.subarray(offset + 10, offset + 10 + size);
+    offset += 10 + size;
+
+    if (version === 4) {
+      // Compressed and encrypted frames are skipped
+      if (formatFlags & 0x0c) continue;
+      if (formatFlags & 0x01) frame = frame.subarray(4);
+      if (formatFlags & 0x02) frame = removeUnsync(frame);
+    } else if (formatFlags & 0xc0) {
+      continue;
+    }
+
+    if (id === 'APIC') {
+      picture = preferCover(picture, parseApic(frame));
+    } else if (id[0] === 'T' && frame.length > 1) {
+      text[id] = firstValue(decodeId3Text(frame.subarray(1), frame[0]));
+    }
+  }
+
+  return {
+    title: text.TIT2,
+    artist: text.TPE1,
+    albumArtist: text.TPE2,
+    album: text.TALB,
+    year: (text.TDRC ?? text.TYER)?.slice(0, 4),
+    trackNumber: parseNumber(text.TRCK),
+    discNumber: parseNumber(text.TPOS),
+    picture: withoutType(picture)
+  };
+}
+
+// `bytes` are the last 128 bytes of the file
+function parseId3v1(bytes: Uint8Array): AudioTags {
+  if (ascii(bytes, 0, 3) !== 'TAG') return {};
+
+  const field = (start: number, length: number) => firstValue(latin1.decode(bytes.subarray(start, start + length)));
+  return {
+    title: field(3, 30),
+    artist: field(33, 30),
+    album: field(63, 30),
+    year: field(93, 4),
+    // ID3v1.1 keeps the track number at the end of the comment
+    trackNumber: bytes[125] === 0 && bytes[126] !== 0 ? bytes[126] : undefined
+  };
+}
+
+// FLAC and Vorbis comments
+
+function parseFlacPicture(bytes: Uint8Array<ArrayBuffer>): TaggedPicture {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const type = view.getUint32(0);
+  const mimeLength = view.getUint32(4);
+  const mimeType = latin1.decode(bytes.subarray(8, 8 + mimeLength));
+  let offset = 8 + mimeLength;
+  offset += 4 + view.getUint32(offset); // description
+  offset += 16; // width, height, colour depth and palette size
+  const dataLength = view.getUint32(offset);
+  return { mimeType, type, data: bytes.slice(offset + 4, offset + 4 + dataLength) };
+}
+
+function base64Bytes(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+// A Vorbis comment block, starting at its vendor string
+function parseVorbisComments(bytes: Uint8Array<ArrayBuffer>): AudioTags {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 4 + view.getUint32(0, true);
+  const count = view.getUint32(offset, true);
+  offset += 4;
+
+  const fields: Record<string, string | undefined> = {};
+  let picture: TaggedPicture | null = null;
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = view.getUint32(offset, true);
+    const comment = utf8.decode(bytes.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+
+    const separator = comment.indexOf('=');
+    if (separator < 1) continue;
+    const key = comment.slice(0, separator).toUpperCase();
+    const value = comment.slice(separator + 1);
+    if (key === 'METADATA_BLOCK_PICTURE') {
+      picture = preferCover(picture, parseFlacPicture(base64Bytes(value)));
+    } else {
+      fields[key] ??= value.trim() || undefined;
+    }
+  }
+
+  return {
+    title: fields.TITLE,
+    artist: fields.ARTIST,
+    albumArtist: fields.ALBUMARTIST ?? fields['ALBUM ARTIST'],
+    album: fields.ALBUM,
+    year: fields.DATE?.slice(0, 4),
+    trackNumber: parseNumber(fields.TRACKNUMBER),
+    discNumber: parseNumber(fields.DISCNUMBER),
+    picture: withoutType(picture)
+  };
+}
+
+async function readFlacTags(file: File): Promise<AudioTags> {
+  let tags: AudioTags = {};
+  let picture: TaggedPicture | null = null;
+
+  // Metadata blocks follow the "fLaC" marker, each with a 4-byte header
+  for (let offset = 4; offset < file.size;) {
+    const header = await readBytes(file, offset, offset + 4);
+    if (header.length < 4) break;
+    const isLast = (header[0] & 0x80) !== 0;
+    const type = header[0] & 0x7f;
+    const length = (header[1] << 16) | (header[2] << 8) | header[3];
+    offset += 4;
+
+    if (type === 4) {
+      tags = parseVorbisComments(await readBytes(file, offset, offset + length));
+    } else if (type === 6 && length <= MAX_TAG_BYTES) {
+      picture = preferCover(picture, parseFlacPicture(await readBytes(file, offset, offset + length)));
+    }
+    offset += length;
+    if (isLast) break;
+  }
+
+  return { ...tags, picture: withoutType(picture) ?? tags.picture };
+}
+
+// The first `wanted` packets of the stream, or null if `bytes` ends first
+function oggPackets(bytes: Uint8Array<ArrayBuffer>, wanted: number): Uint8Array<ArrayBuffer>[] | null {
+  const packets: Uint8Array<ArrayBuffer>[] = [];
+  let pending: Uint8Array[] = [];
+
+  for (let offset = 0; packets.length < wanted;) {
+    if (offset + 27 > bytes.length || ascii(bytes, offset, 4) !== 'OggS') return null;
+
+    const segmentCount = bytes[offset + 26];
+    let dataOffset = offset + 27 + segmentCount;
+    for (const lacing of bytes.subarray(offset + 27, offset + 27 + segmentCount)) {
+      if (dataOffset + lacing > bytes.length) return null;
+      pending.push(bytes.subarray(dataOffset, dataOffset + lacing));
+      dataOffset += lacing;
+      // A segment shorter than 255 bytes ends the packet
+      if (lacing < 255) {
+        const packet = new Uint8Array(pending.reduce((total, part) => total + part.length, 0));
+        pending.reduce((at, part) => {
+          packet.set(part, at);
+          return at + part.length;
+        }, 0);
+        packets.push(packet);
+        pending = [];
+      }
+    }
+    offset = dataOffset;
+  }
+
+  return packets;
+}
+
+async function readOggTags(file: File): Promise<AudioTags> {
+  for (let size = OGG_INITIAL_READ_BYTES; ; size *= 4) {
+    const packets = oggPackets(await readBytes(file, 0, Math.min(size, MAX_TAG_BYTES)), 2);
+    if (packets) {
+      // The second packet holds the comments, after a codec-specific marker
+      const comments = packets[1];
+      if (ascii(comments, 0, 7) === '\x03vorbis') return parseVorbisComments(comments.subarray(7));
+      if (ascii(comments, 0, 8) === 'OpusTags') return parseVorbisComments(comments.subarray(8));
+      return {};
+    }
+    if (size >= file.size || size >= MAX_TAG_BYTES) return {};
+  }
+}
+
+export async function readAudioTags(file: File): Promise<AudioTags> {
+  try {
+    const head = await readBytes(file, 0, 10);
+    const magic = ascii(head, 0, 4);
+
+    if (magic.startsWith('ID3')) {
+      const size = 10 + synchsafe(head, 6);
+      return parseId3v2(await readBytes(file, 0, Math.min(size, MAX_TAG_BYTES)));
+    }
+    if (magic === 'fLaC') return await readFlacTags(file);
+    if (magic === 'OggS') return await readOggTags(file);
+    if (file.size >= 128) return parseId3v1(await readBytes(file, file.size - 128, file.size));
+    return {};
+  } catch (error) {
+    // A damaged tag should not keep the file out of the collection
+    console.warn(`Could not read tags from ${file.name}:`, error);
+    return {};
+  }
+}
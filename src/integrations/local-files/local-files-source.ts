@@ -0,0 +1,147 @@
+import type { RepeatState } from '../spotify-api';
+import type { Paging } from '../spotify-models';
+import { singlePage, type MusicSource, type MusicSourceEvents, type SourceCollection } from '../music-source';
+import { AudioQueuePlayer } from '../audio-queue-player';
+import { TypedEmitter } from '../../lib/typed-emitter';
+import {
+  buildAlbums,
+  filesFromDirectory,
+  filesFromEntries,
+  type LocalAlbum,
+  type LocalFile
+} from './local-library';
+
+export type ScanProgress = (done: number, total: number) => void;
+
+// Thrown when the picked folder or the dropped items hold no playable files
+export class NoAudioFilesError extends Error {
+  constructor() {
+    super('No audio files were found there');
+    this.name = 'NoAudioFilesError';
+  }
+}
+
+// Plays a folder of audio files from this computer. The browser only grants
+// access for the session, so the folder has to be picked again after a reload.
+class LocalFilesSource implements MusicSource {
+  readonly id = 'local';
+  readonly name = 'Local files';
+  private events = new TypedEmitter<MusicSourceEvents>();
+  private player = new AudioQueuePlayer();
+  private albums: LocalAlbum[] = [];
+
+  constructor() {
+    this.player.on('state', state => this.events.emit('state', state));
+  }
+
+  on<K extends keyof MusicSourceEvents>(event: K, listener: (payload: MusicSourceEvents[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  // The folder picker is missing outside Chromium; drag and drop still works
+  canPickFolder(): boolean {
+    return typeof window.showDirectoryPicker === 'function';
+  }
+
+  isConnected(): boolean {
+    return this.albums.length > 0;
+  }
+
+  // Rejects with an AbortError when the picker is cancelled
+  async connect(onProgress?: ScanProgress): Promise<void> {
+    if (!window.showDirectoryPicker) {
+      throw new Error('This browser cannot open folders; drop one onto the page instead');
+    }
+    const handle = await window.showDirectoryPicker({ id: 'vinyl-music', mode: 'read' });
+    await this.open(await filesFromDirectory(handle, handle.name), onProgress);
+  }
+
+  // `entries` come from entriesFromDataTransfer in the drop handler
+  async openDropped(entries: FileSystemEntry[], onProgress?: ScanProgress): Promise<void> {
+    await this.open(await filesFromEntries(entries), onProgress);
+  }
+
+  async disconnect(): Promise<void> {
+    this.player.stop();
+    this.releaseAlbums();
+    this.events.emit('library', undefined);
+  }
+
+  async *iterateCollections(): AsyncGenerator<Paging<SourceCollection>, void, undefined> {
+    yield singlePage(this.albums.map(album => ({
+      id: album.id,
+      name: album.name,
+      subtitle: album.year ? `${album.artist} · ${album.year}` : album.artist,
+      imageUrl: album.coverUrl,
+      trackCount: album.tracks.length
+    })));
+  }
+
+  async playCollection(collectionId: string): Promise<void> {
+    const album = this.albums.find(({ id }) => id === collectionId);
+    if (!album) throw new Error('That album is no longer in the library');
+
+    await this.player.play(`local:album:${album.id}`, album.tracks.map((track, index) => ({
+      uri: `local:album:${album.id}:${index}`,
+      name: track.name,
+      artist: track.artist,
+      durationMs: 0,
+      resolveSrc: async () => URL.createObjectURL(track.file)
+    })));
+  }
+
+  getPlaybackState(): Spotify.PlaybackState | null {
+    return this.player.getState();
+  }
+
+  togglePlayback(): Promise<void> {
+    return this.player.togglePlayback();
+  }
+
+  pause(): Promise<void> {
+    return this.player.pause();
+  }
+
+  seek(positionMs: number): Promise<void> {
+    return this.player.seek(positionMs);
+  }
+
+  nextTrack(): Promise<void> {
+    return this.player.nextTrack();
+  }
+
+  previousTrack(): Promise<void> {
+    return this.player.previousTrack();
+  }
+
+  isShuffling(state: Spotify.PlaybackState | null): boolean {
+    return state?.shuffle ?? false;
+  }
+
+  async setShuffle(enabled: boolean): Promise<void> {
+    this.player.setShuffle(enabled);
+  }
+
+  async setRepeatMode(mode: RepeatState): Promise<void> {
+    this.player.setRepeatMode(mode);
+  }
+
+  private async open(files: LocalFile[], onProgress?: ScanProgress): Promise<void> {
+    const albums = await buildAlbums(files, onProgress);
+    if (albums.length === 0) throw new NoAudioFilesError();
+
+    this.player.stop();
+    this.releaseAlbums();
+    this.albums = albums;
+    this.events.emit('library', undefined);
+  }
+
+  private releaseAlbums(): void {
+    for (const { coverUrl } of this.albums) {
+      if (coverUrl) URL.revokeObjectURL(coverUrl);
+    }
+    this.albums = [];
+  }
+}
+
+export const localFilesSource = new LocalFilesSource();
@@ -0,0 +1,180 @@
+import { readAudioTags, type AudioTags } from './audio-tags';
+
+const AUDIO_EXTENSIONS = /\.(mp3|flac|ogg|oga|opus|m4a|aac|wav)$/i;
+// Sleeve art kept next to the tracks, for albums without embedded art
+const COVER_FILE = /^(cover|folder|front|album)\.(jpe?g|png|webp)$/i;
+// "01 - Song.mp3", "01. Song.mp3" and "1 Song.mp3" all name "Song"
+const TRACK_NUMBER_PREFIX = /^(\d{1,3})[\s.\-_]+/;
+
+const VARIOUS_ARTISTS = 'Various Artists';
+const UNKNOWN_ARTIST = 'Unknown artist';
+
+// A file found in the picked folder, with the path of the folder holding it
+export interface LocalFile {
+  file: File;
+  folder: string;
+}
+
+export interface LocalTrack {
+  file: File;
+  name: string;
+  artist: string;
+  discNumber: number;
+  trackNumber: number | null;
+}
+
+export interface LocalAlbum {
+  id: string;
+  name: string;
+  artist: string;
+  year: string | null;
+  // An object URL owned by the album; revoke it when the library is dropped
+  coverUrl: string | null;
+  tracks: LocalTrack[];
+}
+
+interface TaggedFile extends LocalFile {
+  tags: AudioTags;
+}
+
+function joinPath(folder: string, name: string): string {
+  return folder ? `${folder}/${name}` : name;
+}
+
+function folderName(folder: string): string {
+  return folder.split('/').pop() || 'Music';
+}
+
+function fileTitle(name: string): string {
+  return name.replace(/\.[^.]+$/, '').replace(TRACK_NUMBER_PREFIX, '').trim() || name;
+}
+
+export async function filesFromDirectory(handle: FileSystemDirectoryHandle, folder = ''): Promise<LocalFile[]> {
+  const files: LocalFile[] = [];
+  for await (const entry of handle.values()) {
+    if (entry.kind === 'directory') {
+      files.push(...await filesFromDirectory(entry, joinPath(folder, entry.name)));
+    } else {
+      files.push({ file: await entry.getFile(), folder });
+    }
+  }
+  return files;
+}
+
+// The dropped items as file system entries. DataTransfer items are only
+// readable while the drop event is dispatched, so call this synchronously
+// from the handler and walk the entries afterwards with filesFromEntries.
+export function entriesFromDataTransfer(dataTransfer: DataTransfer): FileSystemEntry[] {
+  return Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+}
+
+function isDirectoryEntry(entry: FileSystemEntry): entry is FileSystemDirectoryEntry {
+  return entry.isDirectory;
+}
+
+function isFileEntry(entry: FileSystemEntry): entry is FileSystemFileEntry {
+  return entry.isFile;
+}
+
+function readEntryFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+// readEntries returns the children in batches, and an empty batch at the end
+async function readDirectoryEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+export async function filesFromEntries(entries: FileSystemEntry[], folder = ''): Promise<LocalFile[]> {
+  const files: LocalFile[] = [];
+  for (const entry of entries) {
+    if (isDirectoryEntry(entry)) {
+      files.push(...await filesFromEntries(await readDirectoryEntries(entry), joinPath(folder, entry.name)));
+    } else if (isFileEntry(entry)) {
+      files.push({ file: await readEntryFile(entry), folder });
+    }
+  }
+  return files;
+}
+
+// Tracks tagged with an album are grouped by album and album artist, or by
+// folder when the album artist is missing so two "Greatest Hits" stay apart.
+// Untagged tracks are grouped by the folder they are in.
+function albumKey({ tags, folder }: TaggedFile): string {
+  if (!tags.album) return `folder:${folder}`;
+  return tags.albumArtist ? `album:${tags.album}\0${tags.albumArtist}` : `album:${tags.album}\0folder:${folder}`;
+}
+
+function albumArtist(files: TaggedFile[]): string {
+  const tagged = files.find(({ tags }) => tags.albumArtist)?.tags.albumArtist;
+  if (tagged) return tagged;
+
+  const artists = new Set(files.map(({ tags }) => tags.artist).filter(Boolean));
+  if (artists.size === 1) return [...artists][0]!;
+  return artists.size > 1 ? VARIOUS_ARTISTS : UNKNOWN_ARTIST;
+}
+
+function toTrack({ file, tags }: TaggedFile): LocalTrack {
+  const numberFromName = TRACK_NUMBER_PREFIX.exec(file.name)?.[1];
+  return {
+    file,
+    name: tags.title ?? fileTitle(file.name),
+    artist: tags.artist ?? tags.albumArtist ?? UNKNOWN_ARTIST,
+    discNumber: tags.discNumber ?? 1,
+    trackNumber: tags.trackNumber ?? (numberFromName ? parseInt(numberFromName, 10) : null)
+  };
+}
+
+function compareTracks(a: LocalTrack, b: LocalTrack): number {
+  return a.discNumber - b.discNumber ||
+    (a.trackNumber ?? Infinity) - (b.trackNumber ?? Infinity) ||
+    a.file.name.localeCompare(b.file.name, undefined, { numeric: true });
+}
+
+function coverUrl(files: TaggedFile[], coversByFolder: Map<string, File>): string | null {
+  const picture = files.find(({ tags }) => tags.picture)?.tags.picture;
+  if (picture) return URL.createObjectURL(new Blob([picture.data], { type: picture.mimeType }));
+
+  const coverFile = files.map(({ folder }) => coversByFolder.get(folder)).find(Boolean);
+  return coverFile ? URL.createObjectURL(coverFile) : null;
+}
+
+// Read the tags of every audio file and group the files into albums, sorted
+// by artist and name. `onProgress` is called after each file is read.
+export async function buildAlbums(
+  files: LocalFile[],
+  onProgress?: (done: number, total: number) => void
+): Promise<LocalAlbum[]> {
+  const audioFiles = files.filter(({ file }) => AUDIO_EXTENSIONS.test(file.name));
+  const coversByFolder = new Map(
+    files.filter(({ file }) => COVER_FILE.test(file.name)).map(({ file, folder }) => [folder, file])
+  );
+
+  const groups = new Map<string, TaggedFile[]>();
+  for (const [index, localFile] of audioFiles.entries()) {
+    const tagged = { ...localFile, tags: await readAudioTags(localFile.file) };
+    const key = albumKey(tagged);
+    groups.set(key, [...groups.get(key) ?? [], tagged]);
+    onProgress?.(index + 1, audioFiles.length);
+  }
+
+  const albums = [...groups.entries()].map(([id, group]): LocalAlbum => ({
+    id,
+    name: group[0].tags.album ?? folderName(group[0].folder),
+    artist: albumArtist(group),
+    year: group.find(({ tags }) => tags.year)?.tags.year ?? null,
+    coverUrl: coverUrl(group, coversByFolder),
+    tracks: group.map(toTrack).sort(compareTracks)
+  }));
+
+  return albums.sort((a, b) => a.artist.localeCompare(b.artist) || a.name.localeCompare(b.name));
+}
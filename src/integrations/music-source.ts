@@ -0,0 +1,58 @@
+import type { RepeatState } from './spotify-api';
+import type { Paging } from './spotify-models';
+
+// Where the turntable gets its music. Spotify is one source; others play from
+// elsewhere (a folder of local files, a home server) but report playback in
+// the Web Playback SDK's Spotify.PlaybackState shape, so RecordPlayer and the
+// progress bar render every source alike.
+
+export type MusicSourceId = 'spotify' | 'local' | 'subsonic';
+
+// An album or playlist, shown as a record sleeve in a source's collection grid
+export interface SourceCollection {
+  id: string;
+  name: string;
+  subtitle: string;
+  imageUrl: string | null;
+  trackCount: number;
+}
+
+export interface MusicSourceEvents {
+  state: Spotify.PlaybackState | null;
+  // Connected or disconnected, or the collections changed
+  library: undefined;
+}
+
+export interface MusicSource {
+  readonly id: MusicSourceId;
+  readonly name: string;
+
+  // Whether the source can list and play music right now, e.g. signed in
+  isConnected(): boolean;
+  // Sign in or pick where the music is. May navigate away (Spotify) or need
+  // a user gesture (folder pickers), so call it from a click handler.
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+
+  iterateCollections(signal?: AbortSignal): AsyncGenerator<Paging<SourceCollection>, void, undefined>;
+  playCollection(collectionId: string): Promise<void>;
+
+  getPlaybackState(): Spotify.PlaybackState | null;
+  togglePlayback(): Promise<void>;
+  // Stop playing, e.g. before another source takes over
+  pause(): Promise<void>;
+  seek(positionMs: number): Promise<void>;
+  nextTrack(): Promise<void>;
+  previousTrack(): Promise<void>;
+  // Shuffle as the listener sees it, which may differ from `state.shuffle`
+  isShuffling(state: Spotify.PlaybackState | null): boolean;
+  setShuffle(enabled: boolean): Promise<void>;
+  setRepeatMode(mode: RepeatState): Promise<void>;
+
+  on<K extends keyof MusicSourceEvents>(event: K, listener: (payload: MusicSourceEvents[K]) => void): () => void;
+}
+
+// All of `items` as one page, for sources that list their whole library at once
+export function singlePage<T>(items: T[]): Paging<T> {
+  return { href: '', items, limit: items.length, next: null, offset: 0, previous: null, total: items.length };
+}
@@ -0,0 +1,55 @@
+import type { MusicSource, MusicSourceId } from './music-source';
+import { spotifySource } from './spotify-source';
+import { localFilesSource } from './local-files/local-files-source';
+import { subsonicSource } from './subsonic/subsonic-source';
+import { TypedEmitter } from '../lib/typed-emitter';
+
+const ACTIVE_SOURCE_KEY = 'vinyl_music_source';
+
+interface MusicSourceRegistryEvents {
+  change: MusicSource;
+}
+
+// The music sources the turntable can play from and which one it uses. The
+// choice is remembered on this browser; Spotify is the default.
+export class MusicSourceRegistry {
+  private events = new TypedEmitter<MusicSourceRegistryEvents>();
+  private active: MusicSource;
+
+  constructor(
+    private readonly sources: MusicSource[],
+    private readonly storage: Storage = localStorage
+  ) {
+    const storedId = this.storage.getItem(ACTIVE_SOURCE_KEY);
+    this.active = sources.find(source => source.id === storedId) ?? sources[0];
+  }
+
+  on<K extends keyof MusicSourceRegistryEvents>(
+    event: K,
+    listener: (payload: MusicSourceRegistryEvents[K]) => void
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  list(): MusicSource[] {
+    return this.sources;
+  }
+
+  getActive(): MusicSource {
+    return this.active;
+  }
+
+  // Switch sources, pausing the old one so two never play at once
+  setActive(id: MusicSourceId): void {
+    const next = this.sources.find(source => source.id === id);
+    if (!next || next === this.active) return;
+
+    const previous = this.active;
+    previous.pause().catch(error => console.error(`Error pausing ${previous.name}:`, error));
+    this.active = next;
+    this.storage.setItem(ACTIVE_SOURCE_KEY, id);
+    this.events.emit('change', next);
+  }
+}
+
+export const musicSources = new MusicSourceRegistry([spotifySource, localFilesSource, subsonicSource]);
@@ -0,0 +1,251 @@
+import type { PlaylistDetailsInput, SpotifyApiClient } from './spotify-api';
+import type { SpotifyPlaylist, SpotifyPlaylistItem } from './spotify-models';
+import { TypedEmitter } from '../lib/typed-emitter';
+
+// Playlist items are fetched in pages of this size
+const PAGE_SIZE = 50;
+
+// Thrown when the playlist changed in another app (or another tab) since it
+// was loaded. The editor has already reloaded; the user should retry.
+export class PlaylistConflictError extends Error {
+  constructor() {
+    super('This playlist was changed elsewhere. It has been reloaded, please try again.');
+    this.name = 'PlaylistConflictError';
+  }
+}
+
+export interface PlaylistEntry {
+  // Stable across moves, for React keys and drag and drop
+  key: string;
+  item: SpotifyPlaylistItem;
+}
+
+export interface PlaylistEditorState {
+  playlist: SpotifyPlaylist;
+  entries: PlaylistEntry[];
+  // Items in the playlist, including ones not loaded yet
+  total: number;
+  hasMore: boolean;
+  isBusy: boolean;
+}
+
+interface PlaylistEditorEvents {
+  change: PlaylistEditorState;
+}
+
+// Where the item moved from `from` must be inserted, in Spotify's terms, to
+// end up at index `to`
+function insertBeforeFor(from: number, to: number): number {
+  return to > from ? to + 1 : to;
+}
+
+// Edits one playlist. Changes show up locally straight away and are sent to
+// Spotify one at a time, each against the snapshot ID the previous one
+// returned. Before anything that depends on positions (moves and removals)
+// the editor checks Spotify's current snapshot; if someone changed the
+// playlist in the meantime it reloads instead of sending positions that no
+// longer mean what the user saw, and throws PlaylistConflictError.
+export class PlaylistEditor {
+  private events = new TypedEmitter<PlaylistEditorEvents>();
+  private entries: PlaylistEntry[] = [];
+  private snapshotId: string;
+  private total: number;
+  private hasMore = true;
+  private nextKey = 0;
+  // Bumped on every reload; positions taken before one no longer apply
+  private generation = 0;
+  // Tail of the chain of pending requests, so they reach Spotify in order
+  private pending: Promise<unknown> = Promise.resolve();
+  private pendingCount = 0;
+
+  private constructor(
+    private readonly api: SpotifyApiClient,
+    // Wraps every write, e.g. to translate a missing-scope 403
+    private readonly authorize: <T>(request: () => Promise<T>) => Promise<T>,
+    private playlist: SpotifyPlaylist
+  ) {
+    this.snapshotId = playlist.snapshot_id;
+    this.total = playlist.tracks.total;
+  }
+
+  static async open(
+    api: SpotifyApiClient,
+    authorize: <T>(request: () => Promise<T>) => Promise<T>,
+    playlistId: string,
+    signal?: AbortSignal
+  ): Promise<PlaylistEditor> {
+    const playlist = await api.getPlaylist(playlistId, { signal });
+    const editor = new PlaylistEditor(api, authorize, playlist);
+    await editor.fetchNextPage(signal);
+    return editor;
+  }
+
+  on<K extends keyof PlaylistEditorEvents>(event: K, listener: (payload: PlaylistEditorEvents[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  getState(): PlaylistEditorState {
+    return {
+      playlist: this.playlist,
+      entries: this.entries,
+      total: this.total,
+      hasMore: this.hasMore,
+      isBusy: this.pendingCount > 0
+    };
+  }
+
+  loadMore(): Promise<void> {
+    return this.enqueue(async () => {
+      if (this.hasMore) await this.fetchNextPage();
+    });
+  }
+
+  updateDetails(details: PlaylistDetailsInput): Promise<void> {
+    return this.enqueue(async () => {
+      await this.authorize(() => this.api.updatePlaylistDetails(this.playlist.id, details));
+      this.playlist = {
+        ...this.playlist,
+        name: details.name ?? this.playlist.name,
+        description: details.description ?? this.playlist.description,
+        public: details.public ?? this.playlist.public,
+        collaborative: details.collaborative ?? this.playlist.collaborative
+      };
+      this.emitChange();
+    });
+  }
+
+  // Appending does not depend on positions, so a playlist that changed
+  // elsewhere is reloaded first rather than treated as a conflict
+  addTracks(uris: string[]): Promise<void> {
+    return this.enqueue(async () => {
+      if (await this.hasChangedElsewhere()) {
+        await this.reload();
+      }
+      this.snapshotId = await this.authorize(() => this.api.addPlaylistItems(this.playlist.id, uris));
+      this.total += uris.length;
+      // Items beyond what is loaded arrive with the remaining pages
+      if (!this.hasMore) {
+        await this.fetchNextPage();
+      }
+      this.emitChange();
+    });
+  }
+
+  // Spotify removes by URI, so every copy of the track goes
+  removeEntry(key: string): Promise<void> {
+    const entry = this.entries.find(candidate => candidate.key === key);
+    const uri = entry?.item.track?.uri;
+    if (!uri) return Promise.resolve();
+
+    const removed = this.entries.filter(candidate => candidate.item.track?.uri === uri).length;
+    this.entries = this.entries.filter(candidate => candidate.item.track?.uri !== uri);
+    this.total -= removed;
+    this.emitChange();
+
+    const generation = this.generation;
+    return this.enqueue(async () => {
+      await this.ensureUnchanged(generation);
+      this.snapshotId = await this.authorize(() =>
+        this.api.removePlaylistItems(this.playlist.id, [uri], this.snapshotId)
+      );
+    });
+  }
+
+  // Move the entry at `from` so that it ends up at index `to`
+  moveEntry(from: number, to: number): Promise<void> {
+    if (from === to || from < 0 || to < 0 || from >= this.entries.length || to >= this.entries.length) {
+      return Promise.resolve();
+    }
+
+    const entries = [...this.entries];
+    const [moved] = entries.splice(from, 1);
+    entries.splice(to, 0, moved);
+    this.entries = entries;
+    this.emitChange();
+
+    const generation = this.generation;
+    return this.enqueue(async () => {
+      await this.ensureUnchanged(generation);
+      this.snapshotId = await this.authorize(() =>
+        this.api.reorderPlaylistItems(this.playlist.id, from, insertBeforeFor(from, to), this.snapshotId)
+      );
+    });
+  }
+
+  // Runs after every request queued before it. A failed request leaves the
+  // local copy in doubt, so the playlist is reloaded from Spotify.
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.pendingCount++;
+    this.emitChange();
+
+    const run = this.pending.then(task).catch(async (error) => {
+      if (!(error instanceof PlaylistConflictError)) {
+        try {
+          await this.reload();
+        } catch (reloadError) {
+          console.error('Error reloading playlist:', reloadError);
+        }
+      }
+      throw error;
+    }).finally(() => {
+      this.pendingCount--;
+      this.emitChange();
+    });
+
+    // Keep the chain going whatever happened to this request
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  private async hasChangedElsewhere(): Promise<boolean> {
+    return (await this.api.getPlaylistSnapshotId(this.playlist.id)) !== this.snapshotId;
+  }
+
+  // `generation` is the one the user's edit was made in
+  private async ensureUnchanged(generation: number): Promise<void> {
+    if (generation !== this.generation) {
+      throw new PlaylistConflictError();
+    }
+    if (await this.hasChangedElsewhere()) {
+      await this.reload();
+      throw new PlaylistConflictError();
+    }
+  }
+
+  // Start over from Spotify's current version, keeping as many items loaded
+  // as before so the list does not jump back to the top
+  private async reload(): Promise<void> {
+    const loaded = Math.max(this.entries.length, PAGE_SIZE);
+    this.generation++;
+    this.playlist = await this.api.getPlaylist(this.playlist.id);
+    this.snapshotId = this.playlist.snapshot_id;
+    this.total = this.playlist.tracks.total;
+    this.entries = [];
+    this.hasMore = true;
+    while (this.hasMore && this.entries.length < loaded) {
+      await this.fetchNextPage();
+    }
+    this.emitChange();
+  }
+
+  // Only ever called from within the queue (or before the editor is shared),
+  // so the offset matches Spotify's copy after every earlier edit
+  private async fetchNextPage(signal?: AbortSignal): Promise<void> {
+    const page = await this.api.getPlaylistItems(this.playlist.id, {
+      limit: PAGE_SIZE,
+      offset: this.entries.length,
+      signal
+    });
+    this.entries = [
+      ...this.entries,
+      ...page.items.map(item => ({ key: String(this.nextKey++), item }))
+    ];
+    this.total = page.total;
+    this.hasMore = page.next !== null;
+    this.emitChange();
+  }
+
+  private emitChange(): void {
+    this.events.emit('change', this.getState());
+  }
+}
@@ -0,0 +1,113 @@
+import type { SpotifyPlayback } from './spotify-models';
+
+// How often to ask Spotify what is playing while the audio is on another device
+const POLL_INTERVAL_MS = 5000;
+
+const REPEAT_MODES = { off: 0, context: 1, track: 2 } as const;
+
+// Express a Web API playback snapshot in the shape the Web Playback SDK uses,
+// so the turntable can render playback on a phone or speaker exactly like
+// playback in this browser. Null when there is no track to show.
+export function toPlaybackState(playback: SpotifyPlayback): Spotify.PlaybackState | null {
+  const item = playback.item;
+  if (!item) return null;
+
+  const disallows = playback.actions?.disallows ?? {};
+
+  return {
+    context: {
+      uri: playback.context?.uri ?? '',
+      metadata: null
+    },
+    disallows: {
+      pausing: disallows.pausing ?? false,
+      peeking_next: false,
+      peeking_prev: false,
+      resuming: disallows.resuming ?? false,
+      seeking: disallows.seeking ?? false,
+      skipping_next: disallows.skipping_next ?? false,
+      skipping_prev: disallows.skipping_prev ?? false,
+      toggling_repeat_context: disallows.toggling_repeat_context ?? false,
+      toggling_repeat_track: disallows.toggling_repeat_track ?? false,
+      toggling_shuffle: disallows.toggling_shuffle ?? false
+    },
+    track_window: {
+      current_track: {
+        id: item.id,
+        name: item.name,
+        uri: item.uri,
+        type: item.type,
+        artists: item.type === 'track'
+          // Artists of local files have no URI
+          ? item.artists.map(artist => ({ name: artist.name, uri: artist.uri ?? '' }))
+          : item.show ? [{ name: item.show.name, uri: item.show.uri }] : []
+      }
+    },
+    paused: !playback.is_playing,
+    // `timestamp` is when the state last changed, not when progress_ms was
+    // read, so take progress_ms as the position now; usePlaybackPosition
+    // extrapolates from when this state arrives
+    position: Math.min(item.duration_ms, playback.progress_ms ?? 0),
+    duration: item.duration_ms,
+    repeat_mode: REPEAT_MODES[playback.repeat_state],
+    shuffle: playback.shuffle_state
+  };
+}
+
+interface RemotePlaybackPollerOptions {
+  fetch: (signal: AbortSignal) => Promise<SpotifyPlayback | null>;
+  onPlayback: (playback: SpotifyPlayback | null) => void;
+}
+
+// Polls /me/player while this browser is not the device playing, since the
+// SDK only reports state for its own device. Skips polls while the tab is
+// hidden; there is nothing on screen to update.
+export class RemotePlaybackPoller {
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private controller: AbortController | null = null;
+
+  constructor(private readonly options: RemotePlaybackPollerOptions) {}
+
+  get isRunning(): boolean {
+    return this.intervalId !== null;
+  }
+
+  start(): void {
+    if (this.isRunning) return;
+
+    this.intervalId = setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        this.pollNow();
+      }
+    }, POLL_INTERVAL_MS);
+    this.pollNow();
+  }
+
+  stop(): void {
+    if (this.intervalId !== null) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.controller?.abort();
+    this.controller = null;
+  }
+
+  // Poll immediately, e.g. right after sending a command to the remote device.
+  // A poll still in flight is superseded.
+  async pollNow(): Promise<void> {
+    this.controller?.abort();
+    const controller = new AbortController();
+    this.controller = controller;
+
+    try {
+      const playback = await this.options.fetch(controller.signal);
+      if (!controller.signal.aborted) {
+        this.options.onPlayback(playback);
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.warn('Could not read remote playback state:', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,110 @@
+// Where the user stopped in each podcast episode, kept in localStorage so an
+// episode picks up where it left off even for sessions without the
+// user-read-playback-position scope (which is what fills in Spotify's own
+// `resume_point`).
+
+const RESUME_POINTS_KEY = 'vinyl_resume_points';
+// Oldest points are dropped beyond this many episodes
+const MAX_RESUME_POINTS = 200;
+// Treat an episode as finished this close to the end, skipping the outro
+const FINISHED_MARGIN_MS = 30000;
+
+interface StoredResumePoint {
+  positionMs: number;
+  updatedAt: number;
+}
+
+// The episode last seen playing, to credit the listening time since its last
+// state report when playback moves on to something else
+interface ObservedEpisode {
+  uri: string;
+  positionMs: number;
+  durationMs: number;
+  paused: boolean;
+  observedAt: number;
+}
+
+export class ResumePoints {
+  private current: ObservedEpisode | null = null;
+
+  constructor(private readonly storage: Storage = localStorage) {}
+
+  get(uri: string): number | null {
+    return this.read()[uri]?.positionMs ?? null;
+  }
+
+  save(uri: string, positionMs: number): void {
+    const points = this.read();
+    points[uri] = { positionMs: Math.round(positionMs), updatedAt: Date.now() };
+
+    const uris = Object.keys(points);
+    if (uris.length > MAX_RESUME_POINTS) {
+      uris
+        .sort((a, b) => points[a].updatedAt - points[b].updatedAt)
+        .slice(0, uris.length - MAX_RESUME_POINTS)
+        .forEach(stale => delete points[stale]);
+    }
+    this.write(points);
+  }
+
+  clear(uri: string): void {
+    const points = this.read();
+    if (!(uri in points)) return;
+    delete points[uri];
+    this.write(points);
+  }
+
+  // Record progress from each playback state report
+  observe(state: Spotify.PlaybackState | null): void {
+    const track = state?.track_window.current_track;
+    const previous = this.current;
+
+    // Playback left the episode; it kept playing until now
+    if (previous && previous.uri !== track?.uri) {
+      const elapsed = previous.paused ? 0 : Date.now() - previous.observedAt;
+      this.record(previous.uri, previous.positionMs + elapsed, previous.durationMs);
+    }
+
+    if (!state || track?.type !== 'episode') {
+      this.current = null;
+      return;
+    }
+
+    this.current = {
+      uri: track.uri,
+      positionMs: state.position,
+      durationMs: state.duration,
+      paused: state.paused,
+      observedAt: Date.now()
+    };
+    this.record(track.uri, state.position, state.duration);
+  }
+
+  private record(uri: string, positionMs: number, durationMs: number): void {
+    if (durationMs > 0 && positionMs >= durationMs - FINISHED_MARGIN_MS) {
+      this.clear(uri);
+    } else if (positionMs > 0) {
+      this.save(uri, positionMs);
+    }
+  }
+
+  private read(): Record<string, StoredResumePoint> {
+    try {
+      const stored = this.storage.getItem(RESUME_POINTS_KEY);
+      return stored ? (JSON.parse(stored) as Record<string, StoredResumePoint>) : {};
+    } catch (error) {
+      console.error('Error reading resume points:', error);
+      return {};
+    }
+  }
+
+  private write(points: Record<string, StoredResumePoint>): void {
+    // Runs on every playback state report, so a full or blocked storage must
+    // not break playback; the point is simply not remembered
+    try {
+      this.storage.setItem(RESUME_POINTS_KEY, JSON.stringify(points));
+    } catch (error) {
+      console.error('Error saving resume points:', error);
+    }
+  }
+}
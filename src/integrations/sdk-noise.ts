@@ -0,0 +1,162 @@
+// The Web Playback SDK reports analytics to cpapi.spotify.com and those calls
+// routinely fail with 400/404 or are blocked outright by content blockers. The
+// failures are harmless but surface as console errors and unhandled promise
+// rejections. This module filters that noise in one place using declarative
+// rules, and counts what it suppressed so it stays visible in diagnostics.
+
+// 'suppress' hides the failure (network rules answer with a synthetic 200),
+// 'allow' lets it through untouched and stops any later rule from matching
+export type NoiseAction = 'suppress' | 'allow';
+
+export interface NetworkNoiseRule {
+  id: string;
+  url: RegExp;
+  // HTTP statuses the rule applies to; 'network' matches a failed fetch
+  statuses: Array<number | 'network'>;
+  action: NoiseAction;
+}
+
+export interface ErrorNoiseRule {
+  id: string;
+  // Matched against the message of window errors and unhandled rejections
+  message: RegExp;
+  action: NoiseAction;
+}
+
+export interface NoiseRules {
+  network: NetworkNoiseRule[];
+  errors: ErrorNoiseRule[];
+}
+
+// Rules are evaluated in order and the first match wins, so the 'allow' rules
+// for playback commands come first: a failed play request is a real error.
+export const DEFAULT_NOISE_RULES: NoiseRules = {
+  network: [
+    { id: 'player-commands', url: /^https:\/\/api\.spotify\.com\/v1\/me\/player/, statuses: [400, 404, 'network'], action: 'allow' },
+    { id: 'cpapi-analytics', url: /^https:\/\/[^/]*cpapi\.spotify\.com\//, statuses: [400, 404, 'network'], action: 'suppress' },
+    { id: 'item-before-load', url: /event\/item_before_load/, statuses: [400, 404, 'network'], action: 'suppress' }
+  ],
+  errors: [
+    { id: 'player-commands', message: /api\.spotify\.com\/v1\/me\/player/, action: 'allow' },
+    { id: 'message-channel-closed', message: /message channel closed before a response was received/, action: 'suppress' },
+    { id: 'cloud-playback-client', message: /CloudPlaybackClientError|PlayLoad event failed with status 404/, action: 'suppress' },
+    { id: 'cpapi-analytics', message: /cpapi\.spotify\.com/, action: 'suppress' }
+  ]
+};
+
+function requestUrl(input: RequestInfo | URL): string {
+  if (typeof input === 'string') return input;
+  if (input instanceof URL) return input.toString();
+  return input.url;
+}
+
+function syntheticOk(): Response {
+  return new Response(JSON.stringify({ ok: true }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+function describeReason(reason: unknown): string {
+  if (reason instanceof Error) return `${reason.name}: ${reason.message}`;
+  return String(reason);
+}
+
+export class SdkNoiseFilter {
+  private rules: NoiseRules = DEFAULT_NOISE_RULES;
+  private originalFetch: typeof window.fetch | null = null;
+  private patchedFetch: typeof window.fetch | null = null;
+  private counts = new Map<string, number>();
+
+  private readonly handleError = (event: ErrorEvent) => {
+    const message = [event.message, event.error ? describeReason(event.error) : ''].join(' ');
+    if (this.matchError(message)) {
+      event.preventDefault();
+    }
+  };
+
+  private readonly handleRejection = (event: PromiseRejectionEvent) => {
+    if (this.matchError(describeReason(event.reason))) {
+      event.preventDefault();
+    }
+  };
+
+  get isInstalled(): boolean {
+    return this.originalFetch !== null;
+  }
+
+  // Patch fetch and register the global handlers. Calling this again while
+  // installed is a no-op, so several callers can safely ask for it.
+  install(rules: NoiseRules = DEFAULT_NOISE_RULES): void {
+    if (this.isInstalled) return;
+
+    this.rules = rules;
+    const originalFetch = window.fetch;
+    this.originalFetch = originalFetch;
+    this.patchedFetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+      // Someone else patched fetch on top of us and we were uninstalled since
+      if (!this.isInstalled) return originalFetch(input, init);
+
+      const url = requestUrl(input);
+      try {
+        const response = await originalFetch(input, init);
+        if (!response.ok && this.matchNetwork(url, response.status)) {
+          return syntheticOk();
+        }
+        return response;
+      } catch (error) {
+        if (this.matchNetwork(url, 'network')) {
+          return syntheticOk();
+        }
+        throw error;
+      }
+    };
+    window.fetch = this.patchedFetch;
+
+    window.addEventListener('error', this.handleError);
+    window.addEventListener('unhandledrejection', this.handleRejection);
+  }
+
+  uninstall(): void {
+    if (!this.originalFetch) return;
+
+    // Only restore fetch if nobody has wrapped it since; otherwise our wrapper
+    // stays in the chain but passes everything through
+    if (window.fetch === this.patchedFetch) {
+      window.fetch = this.originalFetch;
+    }
+    this.originalFetch = null;
+    this.patchedFetch = null;
+
+    window.removeEventListener('error', this.handleError);
+    window.removeEventListener('unhandledrejection', this.handleRejection);
+  }
+
+  // Number of suppressed events per rule ID since the page loaded
+  getSuppressedCounts(): Record<string, number> {
+    return Object.fromEntries(this.counts);
+  }
+
+  private record(ruleId: string, detail: string): void {
+    this.counts.set(ruleId, (this.counts.get(ruleId) ?? 0) + 1);
+    console.debug(`Suppressed Spotify SDK noise (${ruleId}): ${detail.substring(0, 100)}`);
+  }
+
+  private matchNetwork(url: string, status: number | 'network'): boolean {
+    const rule = this.rules.network.find(candidate => candidate.url.test(url) && candidate.statuses.includes(status));
+    if (rule?.action !== 'suppress') return false;
+
+    this.record(rule.id, `${status} for ${url.split('?')[0]}`);
+    return true;
+  }
+
+  private matchError(message: string): boolean {
+    const rule = this.rules.errors.find(candidate => candidate.message.test(message));
+    if (rule?.action !== 'suppress') return false;
+
+    this.record(rule.id, message);
+    return true;
+  }
+}
+
+export const sdkNoiseFilter = new SdkNoiseFilter();
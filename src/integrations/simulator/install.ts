@@ -0,0 +1,44 @@
+import fixtures from './fixtures.json';
+import { createSimulatedFetch } from './simulated-web-api';
+import { createSimulatedPlayerClass } from './simulated-player';
+import { SimulatedSpotify, simulatorFixturesSchema } from './simulated-spotify';
+import { VirtualClock } from './virtual-clock';
+
+// Handle for driving the simulator from the console or from automated tests,
+// e.g. `window.spotifySimulator.clock.advance(60000)` to skip a minute ahead
+export interface SpotifySimulator {
+  clock: VirtualClock;
+  spotify: SimulatedSpotify;
+}
+
+declare global {
+  interface Window {
+    spotifySimulator?: SpotifySimulator;
+  }
+}
+
+interface InstallOptions {
+  // Leave the clock still until advanced by hand, for deterministic tests
+  manualClock?: boolean;
+}
+
+// Run the app against a simulated Spotify account: Spotify's token and Web
+// API requests are answered in the browser from fixtures.json, and the Web
+// Playback SDK is replaced so no script is loaded from sdk.scdn.co. Nothing
+// is persisted; a reload starts from the fixtures again.
+export function installSpotifySimulator({ manualClock = false }: InstallOptions = {}): SpotifySimulator {
+  if (window.spotifySimulator) return window.spotifySimulator;
+
+  const clock = new VirtualClock();
+  if (!manualClock) {
+    clock.startRealtime();
+  }
+
+  const spotify = new SimulatedSpotify(simulatorFixturesSchema.parse(fixtures), clock);
+  window.fetch = createSimulatedFetch(spotify, window.fetch.bind(window));
+  window.Spotify = { Player: createSimulatedPlayerClass(spotify) };
+
+  console.info('Spotify simulator installed; no requests will reach Spotify');
+  window.spotifySimulator = { clock, spotify };
+  return window.spotifySimulator;
+}
@@ -0,0 +1,57 @@
+// Stand-in for accounts.spotify.com. Sign-in skips Spotify's consent page and
+// goes straight back to the app with an authorization code, so the app's own
+// PKCE callback and token exchange still run. The scopes the app asked for
+// travel inside the code and refresh token, which lets them survive the
+// redirect and a reload and be reported back like Spotify reports them.
+
+const CODE_PREFIX = 'simulated-code.';
+const REFRESH_TOKEN_PREFIX = 'simulated-refresh.';
+const ACCESS_TOKEN_PREFIX = 'simulated-access.';
+const TOKEN_LIFETIME_S = 3600;
+
+// Where the browser would land after approving the app on Spotify's consent page
+export function simulatedAuthorizeRedirect(authorizeUrl: URL): string {
+  const params = authorizeUrl.searchParams;
+  const redirect = new URL(params.get('redirect_uri') ?? `${window.location.origin}/callback`);
+  redirect.searchParams.set('code', `${CODE_PREFIX}${btoa(params.get('scope') ?? '')}`);
+  redirect.searchParams.set('state', params.get('state') ?? '');
+  return redirect.toString();
+}
+
+export function isSimulatedAccessToken(token: string | null | undefined): boolean {
+  return !!token?.startsWith(ACCESS_TOKEN_PREFIX);
+}
+
+function tokenError(error: string, description: string): Response {
+  return new Response(JSON.stringify({ error, error_description: description }), {
+    status: 400,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Answers POST /api/token for both the code exchange and refreshes
+export function simulatedTokenResponse(body: string): Response {
+  const params = new URLSearchParams(body);
+  const grantType = params.get('grant_type');
+
+  let encodedScope: string | null = null;
+  if (grantType === 'authorization_code' && params.get('code')?.startsWith(CODE_PREFIX)) {
+    encodedScope = params.get('code')!.slice(CODE_PREFIX.length);
+  } else if (grantType === 'refresh_token' && params.get('refresh_token')?.startsWith(REFRESH_TOKEN_PREFIX)) {
+    encodedScope = params.get('refresh_token')!.slice(REFRESH_TOKEN_PREFIX.length);
+  }
+  if (encodedScope === null) {
+    return tokenError('invalid_grant', 'Invalid authorization code');
+  }
+
+  return new Response(JSON.stringify({
+    access_token: `${ACCESS_TOKEN_PREFIX}${crypto.randomUUID()}`,
+    token_type: 'Bearer',
+    expires_in: TOKEN_LIFETIME_S,
+    refresh_token: `${REFRESH_TOKEN_PREFIX}${encodedScope}`,
+    scope: atob(encodedScope)
+  }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
@@ -0,0 +1,124 @@
+import { toPlaybackState } from '../remote-playback';
+import { isSimulatedAccessToken } from './simulated-accounts';
+import type { SimulatedSpotify } from './simulated-spotify';
+
+// Each event passes its own payload type; see the addListener overloads
+type Listener = (payload: never) => void;
+
+// A stand-in for the Web Playback SDK's Spotify.Player, installed as
+// window.Spotify.Player. connect() registers a Connect device with the
+// simulated account and fires `ready`; from then on `player_state_changed`
+// reports every change while this device is the one playing, and null once
+// playback moves elsewhere, as the real SDK does.
+export function createSimulatedPlayerClass(spotify: SimulatedSpotify): typeof Spotify.Player {
+  return class SimulatedPlayer {
+    private listeners = new Map<string, Set<Listener>>();
+    private deviceId: string | null = null;
+    private wasActive = false;
+    private unsubscribe: (() => void) | null = null;
+
+    constructor(private readonly init: Spotify.PlayerInit) {}
+
+    async connect(): Promise<boolean> {
+      if (this.deviceId) return true;
+
+      const token = await new Promise<string>(resolve => this.init.getOAuthToken(resolve));
+      if (!isSimulatedAccessToken(token)) {
+        this.emit('authentication_error', { message: 'Invalid token scopes.' });
+        return false;
+      }
+
+      const deviceId = spotify.connectDevice(this.init.name, Math.round((this.init.volume ?? 1) * 100));
+      this.deviceId = deviceId;
+      this.unsubscribe = spotify.on('playback', () => this.reportState());
+      // The SDK resolves connect() before the device is announced
+      setTimeout(() => this.emit('ready', { device_id: deviceId }), 0);
+      return true;
+    }
+
+    disconnect(): void {
+      if (!this.deviceId) return;
+      this.unsubscribe?.();
+      this.unsubscribe = null;
+      spotify.disconnectDevice(this.deviceId);
+      this.deviceId = null;
+      this.wasActive = false;
+    }
+
+    addListener(event: string, callback: Listener): void {
+      let set = this.listeners.get(event);
+      if (!set) {
+        set = new Set();
+        this.listeners.set(event, set);
+      }
+      set.add(callback);
+    }
+
+    removeListener(event: string, callback?: Listener): void {
+      if (callback) {
+        this.listeners.get(event)?.delete(callback);
+      } else {
+        this.listeners.delete(event);
+      }
+    }
+
+    async getCurrentState(): Promise<Spotify.PlaybackState | null> {
+      return this.currentState();
+    }
+
+    async setVolume(volume: number): Promise<void> {
+      if (this.deviceId) spotify.setVolume(volume * 100, this.deviceId);
+    }
+
+    // Like the SDK, the controls only act while this device is playing
+
+    async pause(): Promise<void> {
+      if (this.isActive()) spotify.pause(this.deviceId!);
+    }
+
+    async resume(): Promise<void> {
+      if (this.isActive()) spotify.play({ deviceId: this.deviceId! });
+    }
+
+    async togglePlay(): Promise<void> {
+      const state = this.currentState();
+      if (state) await (state.paused ? this.resume() : this.pause());
+    }
+
+    async seek(positionMs: number): Promise<void> {
+      if (this.isActive()) spotify.seek(positionMs, this.deviceId!);
+    }
+
+    async previousTrack(): Promise<void> {
+      if (this.isActive()) spotify.previous(this.deviceId!);
+    }
+
+    async nextTrack(): Promise<void> {
+      if (this.isActive()) spotify.next(this.deviceId!);
+    }
+
+    private isActive(): boolean {
+      return this.deviceId !== null && spotify.getPlayback()?.device.id === this.deviceId;
+    }
+
+    private currentState(): Spotify.PlaybackState | null {
+      const playback = spotify.getPlayback();
+      return playback && playback.device.id === this.deviceId ? toPlaybackState(playback) : null;
+    }
+
+    private reportState(): void {
+      const state = this.currentState();
+      if (state || this.wasActive) {
+        this.emit('player_state_changed', state);
+      }
+      this.wasActive = state !== null;
+    }
+
+    private emit(event: string, payload: unknown): void {
+      const listeners = this.listeners.get(event) as Set<(payload: unknown) => void> | undefined;
+      for (const listener of [...(listeners ?? [])]) {
+        listener(payload);
+      }
+    }
+  };
+}
@@ -0,0 +1,732 @@
+import { z } from 'zod';
+import type { PlaylistDetailsInput, RepeatState, StartPlaybackOptions } from '../spotify-api';
+import {
+  artistSchema,
+  deviceSchema,
+  episodeSchema,
+  playlistSchema,
+  privateUserSchema,
+  showSchema,
+  simplifiedAlbumSchema,
+  trackSchema,
+  type ArtistAlbumGroup,
+  type Paging,
+  type SearchType,
+  type SpotifyArtist,
+  type SpotifyArtistAlbum,
+  type SpotifyDevice,
+  type SpotifyEpisode,
+  type SpotifyPlayableItem,
+  type SpotifyPlayback,
+  type SpotifyPlayHistory,
+  type SpotifyPlaylist,
+  type SpotifyPlaylistItem,
+  type SpotifyQueue,
+  type SpotifySavedAlbum,
+  type SpotifySavedShow,
+  type SpotifySavedTrack,
+  type SpotifyShow,
+  type SpotifySimplifiedAlbum,
+  type SpotifyTrack,
+  type SpotifyUser
+} from '../spotify-models';
+import { TypedEmitter } from '../../lib/typed-emitter';
+import type { VirtualClock } from './virtual-clock';
+
+const API_BASE_URL = 'https://api.spotify.com/v1';
+// Like Spotify, "previous" restarts the song once it has played this long
+const RESTART_THRESHOLD_MS = 3000;
+// /me/player/recently-played never returns more than this
+const MAX_HISTORY = 50;
+
+// An item in the user's library, by URI
+const savedUriSchema = z.object({ added_at: z.string(), uri: z.string() });
+
+// Albums are taken from the tracks, so only tracks and artists list them
+export const simulatorFixturesSchema = z.object({
+  user: privateUserSchema,
+  tracks: z.array(trackSchema),
+  artists: z.array(artistSchema),
+  // Playlists list their songs by URI; the snapshot ID and count are derived
+  playlists: z.array(playlistSchema.omit({ snapshot_id: true, tracks: true }).extend({
+    track_uris: z.array(z.string())
+  })),
+  saved_tracks: z.array(savedUriSchema),
+  saved_albums: z.array(savedUriSchema),
+  // Shows carry their episodes, newest first
+  shows: z.array(showSchema.extend({ episodes: z.array(episodeSchema.omit({ show: true })) })),
+  saved_shows: z.array(savedUriSchema),
+  // The same for every time range
+  top: z.object({ tracks: z.array(z.string()), artists: z.array(z.string()) }),
+  // Other Connect devices on the account, besides the players the app creates
+  devices: z.array(deviceSchema)
+});
+
+export type SimulatorFixtures = z.infer<typeof simulatorFixturesSchema>;
+
+// A request Spotify would reject. The simulated Web API answers it with the
+// matching status and error body, e.g. 404 with reason NO_ACTIVE_DEVICE.
+export class SimulatedApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly reason: string | null = null
+  ) {
+    super(message);
+    this.name = 'SimulatedApiError';
+  }
+}
+
+export type SimulatedPlayOptions = Omit<StartPlaybackOptions, 'signal'>;
+
+// `version` is bumped by every edit and makes up the snapshot ID
+type SimulatedPlaylist = Omit<SpotifyPlaylist, 'snapshot_id' | 'tracks'> & { uris: string[]; version: number };
+
+type SavedUri = z.infer<typeof savedUriSchema>;
+
+export interface SimulatedSearchResults {
+  tracks?: Paging<SpotifyTrack>;
+  albums?: Paging<SpotifySimplifiedAlbum>;
+  artists?: Paging<SpotifyArtist>;
+  playlists?: Paging<SpotifyPlaylist>;
+}
+
+interface PlaybackSession {
+  contextUri: string | null;
+  // The context in its own order, and in the order it plays when shuffled
+  original: string[];
+  order: string[];
+  index: number;
+  // Position as of `anchoredAt` on the virtual clock
+  positionMs: number;
+  anchoredAt: number;
+  isPlaying: boolean;
+}
+
+interface SimulatedSpotifyEvents {
+  // Anything about playback changed: the song, position, pause, device, ...
+  playback: undefined;
+}
+
+function trackUri(id: string): string {
+  return `spotify:track:${id}`;
+}
+
+// `params` are repeated in the next and previous links, as Spotify does
+function page<T>(path: string, items: T[], offset: number, limit: number, params: Record<string, string> = {}): Paging<T> {
+  const url = (at: number) => `${API_BASE_URL}${path}?${new URLSearchParams({ ...params, limit: String(limit), offset: String(at) })}`;
+  const end = offset + limit;
+  return {
+    href: url(offset),
+    items: items.slice(offset, end),
+    limit,
+    next: end < items.length ? url(end) : null,
+    offset,
+    previous: offset > 0 ? url(Math.max(0, offset - limit)) : null,
+    total: items.length
+  };
+}
+
+function matches(name: string, query: string): boolean {
+  return name.toLowerCase().includes(query.toLowerCase());
+}
+
+function shuffled<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// One Spotify account as the simulator sees it: its library, its Connect
+// devices and what is playing on them. The simulated Web API and the simulated
+// Web Playback SDK both act on it, so a change made through one shows up in
+// the other just as it would against the real service.
+export class SimulatedSpotify {
+  private events = new TypedEmitter<SimulatedSpotifyEvents>();
+  private readonly user: SpotifyUser;
+  private readonly tracks: Map<string, SpotifyTrack>;
+  private readonly albums: Map<string, SpotifySimplifiedAlbum>;
+  private readonly artists: Map<string, SpotifyArtist>;
+  private readonly shows: Map<string, SpotifyShow>;
+  private readonly episodes: Map<string, SpotifyEpisode>;
+  private readonly top: SimulatorFixtures['top'];
+  private playlists: SimulatedPlaylist[];
+  private savedTracks: SavedUri[];
+  private savedAlbums: SavedUri[];
+  private savedShows: SavedUri[];
+  private nextPlaylistNumber = 1;
+  private devices: SpotifyDevice[];
+  private activeDeviceId: string | null = null;
+  private session: PlaybackSession | null = null;
+  private queue: string[] = [];
+  private shuffle = false;
+  private repeat: RepeatState = 'off';
+  private history: SpotifyPlayHistory[] = [];
+  private trackEndTimer: number | null = null;
+  // When playback last changed, which is what Spotify reports as `timestamp`
+  private changedAt: number;
+  private nextDeviceNumber = 1;
+
+  constructor(fixtures: SimulatorFixtures, private readonly clock: VirtualClock) {
+    this.user = fixtures.user;
+    this.changedAt = clock.now();
+    this.tracks = new Map(fixtures.tracks.map(track => [track.uri, track]));
+    this.albums = new Map(fixtures.tracks
+      .filter(track => !track.is_local)
+      .map(track => [track.album.uri!, simplifiedAlbumSchema.parse(track.album)]));
+    this.artists = new Map(fixtures.artists.map(artist => [artist.uri, artist]));
+    this.shows = new Map(fixtures.shows.map(({ episodes, ...show }) => [show.uri, { ...show, total_episodes: episodes.length }]));
+    this.episodes = new Map(fixtures.shows.flatMap(({ episodes, uri }) =>
+      episodes.map(episode => [episode.uri, { ...episode, show: this.shows.get(uri) }])
+    ));
+    this.top = fixtures.top;
+    this.playlists = fixtures.playlists.map(({ track_uris, ...playlist }) => ({ ...playlist, uris: track_uris, version: 1 }));
+    this.savedTracks = [...fixtures.saved_tracks];
+    this.savedAlbums = [...fixtures.saved_albums];
+    this.savedShows = [...fixtures.saved_shows];
+    this.devices = fixtures.devices.map(device => ({ ...device, is_active: false }));
+  }
+
+  on<K extends keyof SimulatedSpotifyEvents>(event: K, listener: (payload: SimulatedSpotifyEvents[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  getUser(): SpotifyUser {
+    return this.user;
+  }
+
+  getPlaylists(offset: number, limit: number): Paging<SpotifyPlaylist> {
+    return page('/me/playlists', this.playlists.map(playlist => this.describePlaylist(playlist)), offset, limit);
+  }
+
+  getPlaylist(id: string): SpotifyPlaylist {
+    return this.describePlaylist(this.findPlaylist(id));
+  }
+
+  getPlaylistItems(id: string, offset: number, limit: number): Paging<SpotifyPlaylistItem> {
+    const items = this.findPlaylist(id).uris.map(uri => ({ added_at: null, is_local: false, track: this.findItem(uri) }));
+    return page(`/playlists/${id}/tracks`, items, offset, limit);
+  }
+
+  createPlaylist(userId: string, details: PlaylistDetailsInput): SpotifyPlaylist {
+    if (userId !== this.user.id) {
+      throw new SimulatedApiError(403, 'You cannot create a playlist for another user');
+    }
+    const id = `simnewplaylist${this.nextPlaylistNumber++}`;
+    const playlist: SimulatedPlaylist = {
+      id,
+      name: details.name ?? 'New Playlist',
+      description: details.description ?? null,
+      collaborative: details.collaborative ?? false,
+      images: null,
+      owner: { id: this.user.id, display_name: this.user.display_name, type: 'user', uri: this.user.uri },
+      public: details.public ?? true,
+      type: 'playlist',
+      uri: `spotify:playlist:${id}`,
+      uris: [],
+      version: 1
+    };
+    this.playlists.unshift(playlist);
+    return this.describePlaylist(playlist);
+  }
+
+  updatePlaylist(id: string, details: PlaylistDetailsInput): void {
+    const playlist = this.findEditablePlaylist(id);
+    Object.assign(playlist, details);
+    playlist.version++;
+  }
+
+  // Edits resolve to the new snapshot ID. Like Spotify, stale snapshot IDs are
+  // accepted; positions are taken as they are now.
+  addPlaylistItems(id: string, uris: string[], position?: number): string {
+    const playlist = this.findEditablePlaylist(id);
+    const added = uris.map(uri => this.findItem(uri, 400).uri);
+    playlist.uris.splice(position ?? playlist.uris.length, 0, ...added);
+    return this.describePlaylist(playlist, ++playlist.version).snapshot_id;
+  }
+
+  removePlaylistItems(id: string, uris: string[]): string {
+    const playlist = this.findEditablePlaylist(id);
+    const removed = new Set(uris);
+    playlist.uris = playlist.uris.filter(uri => !removed.has(uri));
+    return this.describePlaylist(playlist, ++playlist.version).snapshot_id;
+  }
+
+  reorderPlaylistItems(id: string, rangeStart: number, insertBefore: number, rangeLength: number): string {
+    const playlist = this.findEditablePlaylist(id);
+    const { uris } = playlist;
+    if (rangeStart < 0 || rangeStart + rangeLength > uris.length || insertBefore < 0 || insertBefore > uris.length) {
+      throw new SimulatedApiError(400, 'Index out of bounds');
+    }
+    const moved = uris.splice(rangeStart, rangeLength);
+    // insert_before counts positions before the range was taken out
+    uris.splice(insertBefore > rangeStart ? insertBefore - rangeLength : insertBefore, 0, ...moved);
+    return this.describePlaylist(playlist, ++playlist.version).snapshot_id;
+  }
+
+  getSavedTracks(offset: number, limit: number): Paging<SpotifySavedTrack> {
+    const items = this.savedTracks.map(saved => ({ added_at: saved.added_at, track: this.findTrack(saved.uri) }));
+    return page('/me/tracks', items, offset, limit);
+  }
+
+  containsSavedTracks(ids: string[]): boolean[] {
+    return ids.map(id => this.savedTracks.some(saved => saved.uri === trackUri(id)));
+  }
+
+  saveTracks(ids: string[]): void {
+    const addedAt = new Date(this.clock.now()).toISOString();
+    for (const id of ids) {
+      const uri = this.findTrack(trackUri(id), 400).uri;
+      if (!this.savedTracks.some(saved => saved.uri === uri)) {
+        this.savedTracks.unshift({ added_at: addedAt, uri });
+      }
+    }
+  }
+
+  removeSavedTracks(ids: string[]): void {
+    const uris = new Set(ids.map(trackUri));
+    this.savedTracks = this.savedTracks.filter(saved => !uris.has(saved.uri));
+  }
+
+  getSavedAlbums(offset: number, limit: number): Paging<SpotifySavedAlbum> {
+    const items = this.savedAlbums.map(saved => ({ added_at: saved.added_at, album: this.findAlbum(saved.uri) }));
+    return page('/me/albums', items, offset, limit);
+  }
+
+  getSavedShows(offset: number, limit: number): Paging<SpotifySavedShow> {
+    const items = this.savedShows.map(saved => ({ added_at: saved.added_at, show: this.findShow(saved.uri) }));
+    return page('/me/shows', items, offset, limit);
+  }
+
+  // Without their show, as Spotify lists them
+  getShowEpisodes(showId: string, offset: number, limit: number): Paging<SpotifyEpisode> {
+    const showUri = this.findShow(`spotify:show:${showId}`).uri;
+    const items = [...this.episodes.values()]
+      .filter(episode => episode.show?.uri === showUri)
+      .map(({ show: _show, ...episode }) => episode);
+    return page(`/shows/${showId}/episodes`, items, offset, limit);
+  }
+
+  getEpisode(id: string): SpotifyEpisode {
+    const episode = this.episodes.get(`spotify:episode:${id}`);
+    if (!episode) throw new SimulatedApiError(404, 'Non existing id');
+    return episode;
+  }
+
+  getTopTracks(timeRange: string, offset: number, limit: number): Paging<SpotifyTrack> {
+    return page('/me/top/tracks', this.top.tracks.map(uri => this.findTrack(uri)), offset, limit, { time_range: timeRange });
+  }
+
+  getTopArtists(timeRange: string, offset: number, limit: number): Paging<SpotifyArtist> {
+    return page('/me/top/artists', this.top.artists.map(uri => this.findArtist(uri)), offset, limit, { time_range: timeRange });
+  }
+
+  getArtist(id: string): SpotifyArtist {
+    return this.findArtist(`spotify:artist:${id}`);
+  }
+
+  getArtistTopTracks(id: string): SpotifyTrack[] {
+    const uri = this.findArtist(`spotify:artist:${id}`).uri;
+    return [...this.tracks.values()].filter(track => track.artists.some(artist => artist.uri === uri));
+  }
+
+  getArtistAlbums(id: string, groups: ArtistAlbumGroup[], offset: number, limit: number): Paging<SpotifyArtistAlbum> {
+    const uri = this.findArtist(`spotify:artist:${id}`).uri;
+    const items = [...this.albums.values()]
+      .filter(album => album.artists.some(artist => artist.uri === uri))
+      .map(album => ({ ...album, album_group: album.album_type as ArtistAlbumGroup }))
+      .filter(album => groups.includes(album.album_group));
+    return page(`/artists/${id}/albums`, items, offset, limit, { include_groups: groups.join(',') });
+  }
+
+  // Every other artist on the account
+  getRelatedArtists(id: string): SpotifyArtist[] {
+    const uri = this.findArtist(`spotify:artist:${id}`).uri;
+    return [...this.artists.values()].filter(artist => artist.uri !== uri);
+  }
+
+  // Case-insensitive name match. Each type pages on its own, as on Spotify.
+  search(query: string, types: SearchType[], offset: number, limit: number): SimulatedSearchResults {
+    const results: SimulatedSearchResults = {};
+    const params = (type: SearchType) => ({ q: query, type });
+    if (types.includes('track')) {
+      const items = [...this.tracks.values()].filter(track => matches(track.name, query));
+      results.tracks = page('/search', items, offset, limit, params('track'));
+    }
+    if (types.includes('album')) {
+      const items = [...this.albums.values()].filter(album => matches(album.name, query));
+      results.albums = page('/search', items, offset, limit, params('album'));
+    }
+    if (types.includes('artist')) {
+      const items = [...this.artists.values()].filter(artist => matches(artist.name, query));
+      results.artists = page('/search', items, offset, limit, params('artist'));
+    }
+    if (types.includes('playlist')) {
+      const items = this.playlists.filter(playlist => matches(playlist.name, query)).map(playlist => this.describePlaylist(playlist));
+      results.playlists = page('/search', items, offset, limit, params('playlist'));
+    }
+    return results;
+  }
+
+  getDevices(): SpotifyDevice[] {
+    return this.devices.map(device => ({ ...device, is_active: device.id === this.activeDeviceId }));
+  }
+
+  // A Web Playback SDK player came online; returns its device ID
+  connectDevice(name: string, volumePercent: number): string {
+    const id = `simulated-device-${this.nextDeviceNumber++}`;
+    this.devices.push({
+      id,
+      is_active: false,
+      is_private_session: false,
+      is_restricted: false,
+      name,
+      type: 'Computer',
+      volume_percent: volumePercent
+    });
+    return id;
+  }
+
+  disconnectDevice(id: string): void {
+    this.devices = this.devices.filter(device => device.id !== id);
+    if (this.activeDeviceId !== id) return;
+
+    // Spotify stops playback when the device playing it goes away
+    if (this.session) this.anchor(false);
+    this.activeDeviceId = null;
+    this.changed();
+  }
+
+  setVolume(percent: number, deviceId?: string): void {
+    this.requireDevice(deviceId).volume_percent = Math.round(Math.min(100, Math.max(0, percent)));
+    this.changed();
+  }
+
+  // What /me/player reports; null when nothing is playing on any device
+  getPlayback(): SpotifyPlayback | null {
+    const session = this.session;
+    const device = this.devices.find(candidate => candidate.id === this.activeDeviceId);
+    if (!session || !device) return null;
+
+    return {
+      device: { ...device, is_active: true },
+      repeat_state: this.repeat,
+      shuffle_state: this.shuffle,
+      context: session.contextUri ? { type: session.contextUri.split(':')[1], uri: session.contextUri } : null,
+      timestamp: this.changedAt,
+      progress_ms: this.currentPosition(),
+      is_playing: session.isPlaying,
+      item: this.currentItem(),
+      currently_playing_type: this.currentItem().type,
+      actions: { disallows: {} }
+    };
+  }
+
+  getQueue(): SpotifyQueue {
+    const session = this.session;
+    if (!session) return { currently_playing: null, queue: [] };
+
+    const upcoming = [...this.queue, ...session.order.slice(session.index + 1)];
+    return {
+      currently_playing: this.currentItem(),
+      queue: upcoming.map(uri => this.findItem(uri))
+    };
+  }
+
+  getRecentlyPlayed(limit: number): SpotifyPlayHistory[] {
+    return this.history.slice(0, limit);
+  }
+
+  play({ deviceId, contextUri, uris, offset, positionMs = 0 }: SimulatedPlayOptions): void {
+    const device = this.requireDevice(deviceId);
+
+    // Nothing new to play: resume what was playing, on this device
+    if (!contextUri && !uris) {
+      if (!this.session) {
+        throw new SimulatedApiError(404, 'Player command failed: No active device found', 'NO_ACTIVE_DEVICE');
+      }
+      this.activeDeviceId = device.id;
+      this.anchor(true);
+      this.changed();
+      return;
+    }
+
+    const original = contextUri ? this.resolveContext(contextUri) : (uris ?? []).map(uri => this.findItem(uri, 400).uri);
+    const index = offset && 'uri' in offset ? original.indexOf(offset.uri) : offset?.position ?? 0;
+    if (index < 0 || index >= original.length) {
+      throw new SimulatedApiError(400, 'Invalid offset');
+    }
+
+    this.activeDeviceId = device.id;
+    this.session = {
+      contextUri: contextUri ?? null,
+      original,
+      order: [...original],
+      index,
+      positionMs,
+      anchoredAt: this.clock.now(),
+      isPlaying: true
+    };
+    if (this.shuffle) this.shuffleUpcoming();
+    this.startedTrack();
+  }
+
+  pause(deviceId?: string): void {
+    this.requirePlaying(deviceId);
+    this.anchor(false);
+    this.changed();
+  }
+
+  next(deviceId?: string): void {
+    this.requirePlaying(deviceId);
+    this.skipToNext();
+  }
+
+  previous(deviceId?: string): void {
+    const session = this.requirePlaying(deviceId);
+    if (this.currentPosition() > RESTART_THRESHOLD_MS || session.index === 0) {
+      this.seek(0, deviceId);
+      return;
+    }
+    session.index--;
+    session.positionMs = 0;
+    session.anchoredAt = this.clock.now();
+    this.startedTrack();
+  }
+
+  seek(positionMs: number, deviceId?: string): void {
+    const session = this.requirePlaying(deviceId);
+    session.positionMs = Math.min(Math.max(0, positionMs), this.currentItem().duration_ms);
+    session.anchoredAt = this.clock.now();
+    this.changed();
+  }
+
+  setShuffle(state: boolean, deviceId?: string): void {
+    this.requirePlaying(deviceId);
+    this.shuffle = state;
+    if (state) {
+      this.shuffleUpcoming();
+    } else {
+      const session = this.session!;
+      const current = session.order[session.index];
+      session.order = [...session.original];
+      session.index = Math.max(0, session.original.indexOf(current));
+    }
+    this.changed();
+  }
+
+  setRepeat(state: RepeatState, deviceId?: string): void {
+    this.requirePlaying(deviceId);
+    this.repeat = state;
+    this.changed();
+  }
+
+  addToQueue(uri: string, deviceId?: string): void {
+    this.requirePlaying(deviceId);
+    this.queue.push(this.findItem(uri, 400).uri);
+    this.changed();
+  }
+
+  // Spotify carries the song and position over; `play` also resumes it
+  transfer(deviceId: string, play: boolean): void {
+    const device = this.requireDevice(deviceId);
+    this.activeDeviceId = device.id;
+    if (this.session && play) this.anchor(true);
+    this.changed();
+  }
+
+  private describePlaylist({ uris, version, ...playlist }: SimulatedPlaylist, atVersion = version): SpotifyPlaylist {
+    return {
+      ...playlist,
+      snapshot_id: `simulated-${playlist.id}-${atVersion}`,
+      tracks: { href: `${API_BASE_URL}/playlists/${playlist.id}/tracks`, total: uris.length }
+    };
+  }
+
+  private findPlaylist(id: string): SimulatedPlaylist {
+    const playlist = this.playlists.find(candidate => candidate.id === id);
+    if (!playlist) throw new SimulatedApiError(404, 'Resource not found');
+    return playlist;
+  }
+
+  // Only the owner edits a playlist, unless it is collaborative
+  private findEditablePlaylist(id: string): SimulatedPlaylist {
+    const playlist = this.findPlaylist(id);
+    if (playlist.owner.id !== this.user.id && !playlist.collaborative) {
+      throw new SimulatedApiError(403, 'You cannot edit this playlist');
+    }
+    return playlist;
+  }
+
+  private findTrack(uri: string, status = 404): SpotifyTrack {
+    const track = this.tracks.get(uri);
+    if (!track) throw new SimulatedApiError(status, `Unknown item ${uri}`);
+    return track;
+  }
+
+  // A track or an episode
+  private findItem(uri: string, status = 404): SpotifyPlayableItem {
+    const item = this.tracks.get(uri) ?? this.episodes.get(uri);
+    if (!item) throw new SimulatedApiError(status, `Unknown item ${uri}`);
+    return item;
+  }
+
+  private findAlbum(uri: string): SpotifySimplifiedAlbum {
+    const album = this.albums.get(uri);
+    if (!album) throw new SimulatedApiError(404, 'Non existing id');
+    return album;
+  }
+
+  private findArtist(uri: string): SpotifyArtist {
+    const artist = this.artists.get(uri);
+    if (!artist) throw new SimulatedApiError(404, 'Non existing id');
+    return artist;
+  }
+
+  private findShow(uri: string): SpotifyShow {
+    const show = this.shows.get(uri);
+    if (!show) throw new SimulatedApiError(404, 'Non existing id');
+    return show;
+  }
+
+  // The songs a context URI plays, in order
+  private resolveContext(uri: string): string[] {
+    const [, type, id] = uri.split(':');
+    const tracks = [...this.tracks.values()];
+    let uris: string[] = [];
+
+    if (type === 'playlist') {
+      uris = this.findPlaylist(id).uris;
+    } else if (type === 'album') {
+      uris = tracks
+        .filter(track => track.album.uri === uri)
+        .sort((a, b) => a.disc_number - b.disc_number || a.track_number - b.track_number)
+        .map(track => track.uri);
+    } else if (type === 'artist') {
+      uris = tracks.filter(track => track.artists.some(artist => artist.uri === uri)).map(track => track.uri);
+    } else if (type === 'show') {
+      uris = [...this.episodes.values()].filter(episode => episode.show?.uri === uri).map(episode => episode.uri);
+    } else if (type === 'user' && uri.endsWith(':collection')) {
+      uris = this.savedTracks.map(saved => saved.uri);
+    }
+
+    if (uris.length === 0) throw new SimulatedApiError(404, 'Context not found');
+    return uris;
+  }
+
+  // The named device, or the active one when none is named
+  private requireDevice(deviceId?: string): SpotifyDevice {
+    const id = deviceId ?? this.activeDeviceId;
+    const device = this.devices.find(candidate => candidate.id === id);
+    if (device) return device;
+
+    throw deviceId
+      ? new SimulatedApiError(404, 'Device not found')
+      : new SimulatedApiError(404, 'Player command failed: No active device found', 'NO_ACTIVE_DEVICE');
+  }
+
+  private requirePlaying(deviceId?: string): PlaybackSession {
+    this.requireDevice(deviceId);
+    if (!this.session || !this.activeDeviceId) {
+      throw new SimulatedApiError(404, 'Player command failed: No active device found', 'NO_ACTIVE_DEVICE');
+    }
+    return this.session;
+  }
+
+  private currentItem(): SpotifyPlayableItem {
+    const session = this.session!;
+    return this.findItem(session.order[session.index]);
+  }
+
+  private currentPosition(): number {
+    const session = this.session;
+    if (!session) return 0;
+    if (!session.isPlaying) return session.positionMs;
+    return Math.min(this.currentItem().duration_ms, session.positionMs + this.clock.now() - session.anchoredAt);
+  }
+
+  // Fix the position as of now, then play or pause from there
+  private anchor(isPlaying: boolean): void {
+    const session = this.session!;
+    session.positionMs = this.currentPosition();
+    session.anchoredAt = this.clock.now();
+    session.isPlaying = isPlaying;
+  }
+
+  // Keep the current song and shuffle everything after it
+  private shuffleUpcoming(): void {
+    const session = this.session;
+    if (!session) return;
+    const current = session.order[session.index];
+    const rest = session.order.filter((_, index) => index !== session.index);
+    session.order = [current, ...shuffled(rest)];
+    session.index = 0;
+  }
+
+  // Queued songs play first, then the rest of the context. At the end of the
+  // context playback goes back to the start, paused unless repeating.
+  private skipToNext(): void {
+    const session = this.session!;
+    const queued = this.queue.shift();
+    if (queued) {
+      session.order.splice(session.index + 1, 0, queued);
+      session.index++;
+    } else if (session.index + 1 < session.order.length) {
+      session.index++;
+    } else {
+      session.index = 0;
+      session.isPlaying = session.isPlaying && this.repeat !== 'off';
+    }
+    session.positionMs = 0;
+    session.anchoredAt = this.clock.now();
+    this.startedTrack();
+  }
+
+  private trackEnded(): void {
+    if (this.repeat === 'track') {
+      const session = this.session!;
+      session.positionMs = 0;
+      session.anchoredAt = this.clock.now();
+      this.startedTrack();
+    } else {
+      this.skipToNext();
+    }
+  }
+
+  private startedTrack(): void {
+    const session = this.session!;
+    const item = this.currentItem();
+    // Like Spotify, the history only keeps songs
+    if (session.isPlaying && item.type === 'track') {
+      this.history.unshift({
+        track: item,
+        played_at: new Date(this.clock.now()).toISOString(),
+        context: session.contextUri ? { uri: session.contextUri } : null
+      });
+      this.history.length = Math.min(this.history.length, MAX_HISTORY);
+    }
+    this.changed();
+  }
+
+  // Reschedule the end of the current song and tell the players
+  private changed(): void {
+    this.changedAt = this.clock.now();
+    if (this.trackEndTimer !== null) {
+      this.clock.clearTimeout(this.trackEndTimer);
+      this.trackEndTimer = null;
+    }
+
+    if (this.session?.isPlaying && this.activeDeviceId) {
+      const remaining = this.currentItem().duration_ms - this.currentPosition();
+      this.trackEndTimer = this.clock.setTimeout(() => {
+        this.trackEndTimer = null;
+        this.trackEnded();
+      }, remaining);
+    }
+
+    this.events.emit('playback', undefined);
+  }
+}
@@ -0,0 +1,290 @@
+import type { PlaylistDetailsInput, RepeatState } from '../spotify-api';
+import type { ArtistAlbumGroup, SearchType } from '../spotify-models';
+import { isSimulatedAccessToken, simulatedTokenResponse } from './simulated-accounts';
+import { SimulatedApiError, type SimulatedSpotify } from './simulated-spotify';
+
+// Stand-in for every part of api.spotify.com the app uses: the profile, the
+// library, playlists and their editing, search, artists, podcasts, top items
+// and the player. Requests are matched
+// against the route table below in order; anything else gets a 404 that says
+// it is not simulated, so a missing route is obvious rather than silent.
+
+const ACCOUNTS_TOKEN_URL = 'https://accounts.spotify.com/api/token';
+const API_ORIGIN = 'https://api.spotify.com';
+
+interface SimulatedRequest {
+  url: URL;
+  // Capture groups from the route's path pattern
+  params: string[];
+  body: Record<string, unknown>;
+}
+
+interface Route {
+  method: string;
+  path: RegExp;
+  // Returning undefined answers 204 No Content
+  handle: (spotify: SimulatedSpotify, request: SimulatedRequest) => unknown;
+}
+
+function pageParams(url: URL): [offset: number, limit: number] {
+  return [Number(url.searchParams.get('offset') ?? 0), Number(url.searchParams.get('limit') ?? 20)];
+}
+
+function deviceParam(url: URL): string | undefined {
+  return url.searchParams.get('device_id') ?? undefined;
+}
+
+function listParam(url: URL, name: string): string[] {
+  return url.searchParams.get(name)?.split(',').filter(Boolean) ?? [];
+}
+
+function playlistDetails(body: Record<string, unknown>): PlaylistDetailsInput {
+  const details: PlaylistDetailsInput = {};
+  if (typeof body.name === 'string') details.name = body.name;
+  if (typeof body.description === 'string') details.description = body.description;
+  if (typeof body.public === 'boolean') details.public = body.public;
+  if (typeof body.collaborative === 'boolean') details.collaborative = body.collaborative;
+  return details;
+}
+
+function numberField(body: Record<string, unknown>, name: string): number {
+  const value = body[name];
+  if (typeof value !== 'number') throw new SimulatedApiError(400, `Missing ${name}`);
+  return value;
+}
+
+function idsParam(request: SimulatedRequest): string[] {
+  const ids = request.url.searchParams.get('ids')?.split(',') ?? request.body.ids;
+  return Array.isArray(ids) ? ids.map(String) : [];
+}
+
+const ROUTES: Route[] = [
+  { method: 'GET', path: /^\/v1\/me$/, handle: spotify => spotify.getUser() },
+  { method: 'GET', path: /^\/v1\/me\/playlists$/, handle: (spotify, { url }) => spotify.getPlaylists(...pageParams(url)) },
+  {
+    method: 'GET',
+    path: /^\/v1\/playlists\/([^/]+)$/,
+    handle: (spotify, { url, params }) => {
+      const playlist = spotify.getPlaylist(params[0]);
+      return url.searchParams.get('fields') === 'snapshot_id' ? { snapshot_id: playlist.snapshot_id } : playlist;
+    }
+  },
+  {
+    method: 'GET',
+    path: /^\/v1\/playlists\/([^/]+)\/tracks$/,
+    handle: (spotify, { url, params }) => spotify.getPlaylistItems(params[0], ...pageParams(url))
+  },
+  {
+    method: 'POST',
+    path: /^\/v1\/users\/([^/]+)\/playlists$/,
+    handle: (spotify, { params, body }) => spotify.createPlaylist(params[0], playlistDetails(body))
+  },
+  {
+    method: 'PUT',
+    path: /^\/v1\/playlists\/([^/]+)$/,
+    handle: (spotify, { params, body }) => spotify.updatePlaylist(params[0], playlistDetails(body))
+  },
+  {
+    method: 'POST',
+    path: /^\/v1\/playlists\/([^/]+)\/tracks$/,
+    handle: (spotify, { params, body }) => ({
+      snapshot_id: spotify.addPlaylistItems(
+        params[0],
+        Array.isArray(body.uris) ? body.uris.map(String) : [],
+        typeof body.position === 'number' ? body.position : undefined
+      )
+    })
+  },
+  {
+    method: 'DELETE',
+    path: /^\/v1\/playlists\/([^/]+)\/tracks$/,
+    handle: (spotify, { params, body }) => {
+      const tracks = Array.isArray(body.tracks) ? body.tracks as Array<{ uri?: unknown }> : [];
+      return { snapshot_id: spotify.removePlaylistItems(params[0], tracks.map(track => String(track.uri))) };
+    }
+  },
+  {
+    method: 'PUT',
+    path: /^\/v1\/playlists\/([^/]+)\/tracks$/,
+    handle: (spotify, { params, body }) => ({
+      snapshot_id: spotify.reorderPlaylistItems(
+        params[0],
+        numberField(body, 'range_start'),
+        numberField(body, 'insert_before'),
+        typeof body.range_length === 'number' ? body.range_length : 1
+      )
+    })
+  },
+  { method: 'GET', path: /^\/v1\/me\/tracks$/, handle: (spotify, { url }) => spotify.getSavedTracks(...pageParams(url)) },
+  { method: 'GET', path: /^\/v1\/me\/tracks\/contains$/, handle: (spotify, request) => spotify.containsSavedTracks(idsParam(request)) },
+  { method: 'PUT', path: /^\/v1\/me\/tracks$/, handle: (spotify, request) => spotify.saveTracks(idsParam(request)) },
+  { method: 'DELETE', path: /^\/v1\/me\/tracks$/, handle: (spotify, request) => spotify.removeSavedTracks(idsParam(request)) },
+  { method: 'GET', path: /^\/v1\/me\/albums$/, handle: (spotify, { url }) => spotify.getSavedAlbums(...pageParams(url)) },
+  { method: 'GET', path: /^\/v1\/me\/shows$/, handle: (spotify, { url }) => spotify.getSavedShows(...pageParams(url)) },
+  {
+    method: 'GET',
+    path: /^\/v1\/shows\/([^/]+)\/episodes$/,
+    handle: (spotify, { url, params }) => spotify.getShowEpisodes(params[0], ...pageParams(url))
+  },
+  { method: 'GET', path: /^\/v1\/episodes\/([^/]+)$/, handle: (spotify, { params }) => spotify.getEpisode(params[0]) },
+  {
+    method: 'GET',
+    path: /^\/v1\/me\/top\/(tracks|artists)$/,
+    handle: (spotify, { url, params }) => {
+      const timeRange = url.searchParams.get('time_range') ?? 'medium_term';
+      return params[0] === 'tracks'
+        ? spotify.getTopTracks(timeRange, ...pageParams(url))
+        : spotify.getTopArtists(timeRange, ...pageParams(url));
+    }
+  },
+  {
+    method: 'GET',
+    path: /^\/v1\/search$/,
+    handle: (spotify, { url }) => {
+      const query = url.searchParams.get('q');
+      if (!query) throw new SimulatedApiError(400, 'No search query');
+      return spotify.search(query, listParam(url, 'type') as SearchType[], ...pageParams(url));
+    }
+  },
+  { method: 'GET', path: /^\/v1\/artists\/([^/]+)$/, handle: (spotify, { params }) => spotify.getArtist(params[0]) },
+  {
+    method: 'GET',
+    path: /^\/v1\/artists\/([^/]+)\/top-tracks$/,
+    handle: (spotify, { params }) => ({ tracks: spotify.getArtistTopTracks(params[0]) })
+  },
+  {
+    method: 'GET',
+    path: /^\/v1\/artists\/([^/]+)\/albums$/,
+    handle: (spotify, { url, params }) => {
+      const groups = listParam(url, 'include_groups') as ArtistAlbumGroup[];
+      return spotify.getArtistAlbums(params[0], groups.length > 0 ? groups : ['album', 'single', 'compilation'], ...pageParams(url));
+    }
+  },
+  {
+    method: 'GET',
+    path: /^\/v1\/artists\/([^/]+)\/related-artists$/,
+    handle: (spotify, { params }) => ({ artists: spotify.getRelatedArtists(params[0]) })
+  },
+  { method: 'GET', path: /^\/v1\/me\/player(\/currently-playing)?$/, handle: spotify => spotify.getPlayback() ?? undefined },
+  {
+    method: 'PUT',
+    path: /^\/v1\/me\/player$/,
+    handle: (spotify, { body }) => {
+      const [deviceId] = Array.isArray(body.device_ids) ? body.device_ids.map(String) : [];
+      if (!deviceId) throw new SimulatedApiError(400, 'Missing device_ids');
+      spotify.transfer(deviceId, body.play === true);
+    }
+  },
+  { method: 'GET', path: /^\/v1\/me\/player\/devices$/, handle: spotify => ({ devices: spotify.getDevices() }) },
+  {
+    method: 'GET',
+    path: /^\/v1\/me\/player\/recently-played$/,
+    handle: (spotify, { url }) => {
+      const limit = Number(url.searchParams.get('limit') ?? 20);
+      return { items: spotify.getRecentlyPlayed(limit), next: null, limit };
+    }
+  },
+  {
+    method: 'PUT',
+    path: /^\/v1\/me\/player\/play$/,
+    handle: (spotify, { url, body }) => spotify.play({
+      deviceId: deviceParam(url),
+      contextUri: typeof body.context_uri === 'string' ? body.context_uri : undefined,
+      uris: Array.isArray(body.uris) ? body.uris.map(String) : undefined,
+      offset: body.offset as { position: number } | { uri: string } | undefined,
+      positionMs: typeof body.position_ms === 'number' ? body.position_ms : undefined
+    })
+  },
+  { method: 'PUT', path: /^\/v1\/me\/player\/pause$/, handle: (spotify, { url }) => spotify.pause(deviceParam(url)) },
+  { method: 'POST', path: /^\/v1\/me\/player\/next$/, handle: (spotify, { url }) => spotify.next(deviceParam(url)) },
+  { method: 'POST', path: /^\/v1\/me\/player\/previous$/, handle: (spotify, { url }) => spotify.previous(deviceParam(url)) },
+  {
+    method: 'PUT',
+    path: /^\/v1\/me\/player\/seek$/,
+    handle: (spotify, { url }) => spotify.seek(Number(url.searchParams.get('position_ms') ?? 0), deviceParam(url))
+  },
+  {
+    method: 'PUT',
+    path: /^\/v1\/me\/player\/shuffle$/,
+    handle: (spotify, { url }) => spotify.setShuffle(url.searchParams.get('state') === 'true', deviceParam(url))
+  },
+  {
+    method: 'PUT',
+    path: /^\/v1\/me\/player\/repeat$/,
+    handle: (spotify, { url }) => spotify.setRepeat((url.searchParams.get('state') ?? 'off') as RepeatState, deviceParam(url))
+  },
+  {
+    method: 'PUT',
+    path: /^\/v1\/me\/player\/volume$/,
+    handle: (spotify, { url }) => spotify.setVolume(Number(url.searchParams.get('volume_percent') ?? 0), deviceParam(url))
+  },
+  { method: 'GET', path: /^\/v1\/me\/player\/queue$/, handle: spotify => spotify.getQueue() },
+  {
+    method: 'POST',
+    path: /^\/v1\/me\/player\/queue$/,
+    handle: (spotify, { url }) => spotify.addToQueue(url.searchParams.get('uri') ?? '', deviceParam(url))
+  }
+];
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+// Spotify's error body: { error: { status, message, reason? } }
+function errorResponse(status: number, message: string, reason: string | null = null): Response {
+  return jsonResponse(status, { error: { status, message, ...(reason ? { reason } : {}) } });
+}
+
+async function readBody(request: Request): Promise<Record<string, unknown>> {
+  const text = await request.text();
+  if (!text) return {};
+  try {
+    const body = JSON.parse(text);
+    return body && typeof body === 'object' ? body : {};
+  } catch {
+    throw new SimulatedApiError(400, 'Malformed JSON');
+  }
+}
+
+async function handleApiRequest(spotify: SimulatedSpotify, request: Request): Promise<Response> {
+  const authorization = request.headers.get('Authorization')?.replace(/^Bearer /, '');
+  if (!isSimulatedAccessToken(authorization)) {
+    return errorResponse(401, 'Invalid access token');
+  }
+
+  const url = new URL(request.url);
+  try {
+    for (const route of ROUTES) {
+      const match = route.path.exec(url.pathname);
+      if (!match || route.method !== request.method) continue;
+
+      const body = await readBody(request);
+      const result = route.handle(spotify, { url, params: match.slice(1), body });
+      return result === undefined ? new Response(null, { status: 204 }) : jsonResponse(200, result);
+    }
+    return errorResponse(404, `${request.method} ${url.pathname} is not simulated`);
+  } catch (error) {
+    if (error instanceof SimulatedApiError) {
+      return errorResponse(error.status, error.message, error.reason);
+    }
+    throw error;
+  }
+}
+
+// A fetch that answers Spotify's token and Web API requests from the
+// simulated account and hands everything else to `passthrough`
+export function createSimulatedFetch(spotify: SimulatedSpotify, passthrough: typeof window.fetch): typeof window.fetch {
+  return async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    const isTokenRequest = request.url === ACCOUNTS_TOKEN_URL && request.method === 'POST';
+    if (!isTokenRequest && !request.url.startsWith(`${API_ORIGIN}/`)) {
+      return passthrough(input, init);
+    }
+
+    if (request.signal.aborted) {
+      throw request.signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+    }
+
+    return isTokenRequest ? simulatedTokenResponse(await request.text()) : handleApiRequest(spotify, request);
+  };
+}
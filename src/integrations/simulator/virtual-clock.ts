@@ -0,0 +1,83 @@
+// Time source for the simulator. Playback positions and track changes are
+// driven by this clock instead of real timers, so automated tests can jump
+// straight to the end of a song with advance() rather than waiting for it.
+
+// How often the clock catches up with the wall clock in real-time mode
+const REALTIME_TICK_MS = 250;
+
+interface ScheduledCallback {
+  id: number;
+  at: number;
+  callback: () => void;
+}
+
+export class VirtualClock {
+  private current: number;
+  private scheduled: ScheduledCallback[] = [];
+  private nextId = 1;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+
+  constructor(start: number = Date.now()) {
+    this.current = start;
+  }
+
+  get isRealtime(): boolean {
+    return this.intervalId !== null;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  // Run `callback` once the clock has moved `delayMs` forward
+  setTimeout(callback: () => void, delayMs: number): number {
+    const id = this.nextId++;
+    this.scheduled.push({ id, at: this.current + Math.max(0, delayMs), callback });
+    return id;
+  }
+
+  clearTimeout(id: number): void {
+    this.scheduled = this.scheduled.filter(entry => entry.id !== id);
+  }
+
+  // Move time forward, running every callback that falls due on the way in
+  // order. Callbacks see the clock at their own due time and may schedule more.
+  advance(ms: number): void {
+    const target = this.current + Math.max(0, ms);
+
+    for (;;) {
+      const due = this.scheduled
+        .filter(entry => entry.at <= target)
+        .sort((a, b) => a.at - b.at || a.id - b.id)[0];
+      if (!due) break;
+
+      this.scheduled = this.scheduled.filter(entry => entry !== due);
+      this.current = Math.max(this.current, due.at);
+      try {
+        due.callback();
+      } catch (error) {
+        console.error('Error in simulator clock callback:', error);
+      }
+    }
+
+    this.current = target;
+  }
+
+  // Keep pace with the wall clock, for using the app by hand
+  startRealtime(): void {
+    if (this.isRealtime) return;
+
+    let lastTick = Date.now();
+    this.intervalId = setInterval(() => {
+      const now = Date.now();
+      this.advance(now - lastTick);
+      lastTick = now;
+    }, REALTIME_TICK_MS);
+  }
+
+  stop(): void {
+    if (this.intervalId === null) return;
+    clearInterval(this.intervalId);
+    this.intervalId = null;
+  }
+}
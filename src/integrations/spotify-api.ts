@@ -0,0 +1,441 @@
+import { z } from 'zod';
+import {
+  artistAlbumPageSchema,
+  artistSchema,
+  artistTopTracksSchema,
+  devicesSchema,
+  episodePageSchema,
+  episodeSchema,
+  playbackSchema,
+  playlistItemPageSchema,
+  playlistPageSchema,
+  playlistSchema,
+  playlistSnapshotSchema,
+  queueSchema,
+  recentlyPlayedSchema,
+  relatedArtistsSchema,
+  searchResultsSchema,
+  privateUserSchema,
+  savedAlbumPageSchema,
+  savedShowPageSchema,
+  savedTrackPageSchema,
+  savedTracksContainsSchema,
+  topArtistsPageSchema,
+  topTracksPageSchema,
+  type ArtistAlbumGroup,
+  type Paging,
+  type SearchItemMap,
+  type SearchResults,
+  type SearchType,
+  type SpotifyArtist,
+  type SpotifyArtistAlbum,
+  type SpotifyDevice,
+  type SpotifyEpisode,
+  type SpotifyPlayHistory,
+  type SpotifyPlayback,
+  type SpotifyPlaylist,
+  type SpotifyPlaylistItem,
+  type SpotifyQueue,
+  type SpotifySavedAlbum,
+  type SpotifySavedShow,
+  type SpotifySavedTrack,
+  type SpotifyTrack,
+  type SpotifyUser,
+  type TopTimeRange
+} from './spotify-models';
+import { sendSpotifyRequest, type RequestAuth } from './spotify-request';
+
+const API_BASE_URL = 'https://api.spotify.com/v1';
+
+// Error thrown when a response does not match the expected schema
+export class SpotifyValidationError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly issues: z.ZodIssue[]
+  ) {
+    super(`Unexpected response shape from ${path}: ${issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join('; ')}`);
+    this.name = 'SpotifyValidationError';
+  }
+}
+
+// Repeat modes accepted by /me/player/repeat
+export type RepeatState = 'off' | 'context' | 'track';
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface PageOptions extends RequestOptions {
+  limit?: number;
+  offset?: number;
+}
+
+// Fields accepted when creating a playlist or changing its details
+export interface PlaylistDetailsInput {
+  name?: string;
+  description?: string;
+  public?: boolean;
+  collaborative?: boolean;
+}
+
+export interface StartPlaybackOptions extends RequestOptions {
+  deviceId?: string;
+  contextUri?: string;
+  uris?: string[];
+  offset?: { position: number } | { uri: string };
+  positionMs?: number;
+}
+
+// `next` links in paging objects are absolute URLs, everything else is a path
+function resolveUrl(pathOrUrl: string): string {
+  return pathOrUrl.startsWith('https://') ? pathOrUrl : `${API_BASE_URL}${pathOrUrl}`;
+}
+
+export interface SearchOptions extends PageOptions {
+  types: SearchType[];
+}
+
+function searchPath(query: string, { types, limit = 20, offset = 0 }: Omit<SearchOptions, 'signal'>): string {
+  const params = new URLSearchParams({
+    q: query,
+    type: types.join(','),
+    limit: String(limit),
+    offset: String(offset)
+  });
+  return `/search?${params}`;
+}
+
+// Drop the null playlist entries search returns for deleted playlists
+function normalizeSearchResults(results: z.infer<typeof searchResultsSchema>): SearchResults {
+  const { playlists, ...rest } = results;
+  if (!playlists) return rest;
+  return {
+    ...rest,
+    playlists: { ...playlists, items: playlists.items.filter(item => item !== null) }
+  };
+}
+
+function withPaging(path: string, { limit = 50, offset = 0 }: Omit<PageOptions, 'signal'> = {}): string {
+  return `${path}?limit=${limit}&offset=${offset}`;
+}
+
+// Thin typed wrapper around the Spotify Web API. Every method returns a
+// validated model from spotify-models.ts rather than raw JSON.
+export class SpotifyApiClient {
+  constructor(private readonly auth: RequestAuth) {}
+
+  private request(path: string, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (init.body && !headers.has('Content-Type')) {
+      headers.set('Content-Type', 'application/json');
+    }
+    return sendSpotifyRequest(resolveUrl(path), { ...init, headers }, this.auth);
+  }
+
+  private async get<T extends z.ZodTypeAny>(path: string, schema: T, signal?: AbortSignal): Promise<z.infer<T>> {
+    const response = await this.request(path, { signal });
+    return this.parse(path, schema, response);
+  }
+
+  private async parse<T extends z.ZodTypeAny>(path: string, schema: T, response: Response): Promise<z.infer<T>> {
+    const result = schema.safeParse(await response.json());
+    if (!result.success) {
+      throw new SpotifyValidationError(path, result.error.issues);
+    }
+    return result.data;
+  }
+
+  // Yields one validated page at a time, following `next` links until the
+  // collection is exhausted. Stop iterating early to skip the remaining pages.
+  private async *paginate<T extends z.ZodTypeAny>(path: string, schema: T, signal?: AbortSignal): AsyncGenerator<z.infer<T>, void, undefined> {
+    let next: string | null = path;
+    while (next) {
+      const page: z.infer<T> = await this.get(next, schema, signal);
+      yield page;
+      next = page.next;
+    }
+  }
+
+  getCurrentUser({ signal }: RequestOptions = {}): Promise<SpotifyUser> {
+    return this.get('/me', privateUserSchema, signal);
+  }
+
+  getMyPlaylists(options: PageOptions = {}): Promise<Paging<SpotifyPlaylist>> {
+    return this.get(withPaging('/me/playlists', options), playlistPageSchema, options.signal);
+  }
+
+  iterateMyPlaylists(pageSize = 50, signal?: AbortSignal): AsyncGenerator<Paging<SpotifyPlaylist>, void, undefined> {
+    return this.paginate(withPaging('/me/playlists', { limit: pageSize }), playlistPageSchema, signal);
+  }
+
+  getPlaylistItems(playlistId: string, options: PageOptions = {}): Promise<Paging<SpotifyPlaylistItem>> {
+    return this.get(withPaging(`/playlists/${encodeURIComponent(playlistId)}/tracks`, options), playlistItemPageSchema, options.signal);
+  }
+
+  getPlaylist(playlistId: string, { signal }: RequestOptions = {}): Promise<SpotifyPlaylist> {
+    return this.get(`/playlists/${encodeURIComponent(playlistId)}`, playlistSchema, signal);
+  }
+
+  // Just the current version, to tell whether the playlist changed elsewhere
+  async getPlaylistSnapshotId(playlistId: string, { signal }: RequestOptions = {}): Promise<string> {
+    const { snapshot_id } = await this.get(
+      `/playlists/${encodeURIComponent(playlistId)}?fields=snapshot_id`,
+      playlistSnapshotSchema,
+      signal
+    );
+    return snapshot_id;
+  }
+
+  async createPlaylist(userId: string, details: PlaylistDetailsInput, { signal }: RequestOptions = {}): Promise<SpotifyPlaylist> {
+    const path = `/users/${encodeURIComponent(userId)}/playlists`;
+    const response = await this.request(path, { method: 'POST', signal, body: JSON.stringify(details) });
+    return this.parse(path, playlistSchema, response);
+  }
+
+  async updatePlaylistDetails(playlistId: string, details: PlaylistDetailsInput, { signal }: RequestOptions = {}): Promise<void> {
+    await this.request(`/playlists/${encodeURIComponent(playlistId)}`, {
+      method: 'PUT',
+      signal,
+      body: JSON.stringify(details)
+    });
+  }
+
+  // Appends unless a position is given. Resolves to the new snapshot ID.
+  async addPlaylistItems(playlistId: string, uris: string[], position?: number, { signal }: RequestOptions = {}): Promise<string> {
+    const path = `/playlists/${encodeURIComponent(playlistId)}/tracks`;
+    const response = await this.request(path, { method: 'POST', signal, body: JSON.stringify({ uris, position }) });
+    return (await this.parse(path, playlistSnapshotSchema, response)).snapshot_id;
+  }
+
+  // Removes every occurrence of each URI from the given version of the playlist
+  async removePlaylistItems(playlistId: string, uris: string[], snapshotId: string, { signal }: RequestOptions = {}): Promise<string> {
+    const path = `/playlists/${encodeURIComponent(playlistId)}/tracks`;
+    const response = await this.request(path, {
+      method: 'DELETE',
+      signal,
+      body: JSON.stringify({ tracks: uris.map(uri => ({ uri })), snapshot_id: snapshotId })
+    });
+    return (await this.parse(path, playlistSnapshotSchema, response)).snapshot_id;
+  }
+
+  // Moves `rangeLength` items starting at `rangeStart` to before the item
+  // currently at `insertBefore`, positions as of the given snapshot
+  async reorderPlaylistItems(
+    playlistId: string,
+    rangeStart: number,
+    insertBefore: number,
+    snapshotId: string,
+    rangeLength = 1,
+    { signal }: RequestOptions = {}
+  ): Promise<string> {
+    const path = `/playlists/${encodeURIComponent(playlistId)}/tracks`;
+    const response = await this.request(path, {
+      method: 'PUT',
+      signal,
+      body: JSON.stringify({
+        range_start: rangeStart,
+        insert_before: insertBefore,
+        range_length: rangeLength,
+        snapshot_id: snapshotId
+      })
+    });
+    return (await this.parse(path, playlistSnapshotSchema, response)).snapshot_id;
+  }
+
+  getMySavedTracks(options: PageOptions = {}): Promise<Paging<SpotifySavedTrack>> {
+    return this.get(withPaging('/me/tracks', options), savedTrackPageSchema, options.signal);
+  }
+
+  // Which of the given tracks (up to 50) are in Liked Songs
+  containsMySavedTracks(trackIds: string[], { signal }: RequestOptions = {}): Promise<boolean[]> {
+    return this.get(`/me/tracks/contains?ids=${trackIds.map(encodeURIComponent).join(',')}`, savedTracksContainsSchema, signal);
+  }
+
+  async saveTracks(trackIds: string[], { signal }: RequestOptions = {}): Promise<void> {
+    await this.request('/me/tracks', { method: 'PUT', signal, body: JSON.stringify({ ids: trackIds }) });
+  }
+
+  async removeSavedTracks(trackIds: string[], { signal }: RequestOptions = {}): Promise<void> {
+    await this.request('/me/tracks', { method: 'DELETE', signal, body: JSON.stringify({ ids: trackIds }) });
+  }
+
+  iterateMySavedAlbums(pageSize = 50, signal?: AbortSignal): AsyncGenerator<Paging<SpotifySavedAlbum>, void, undefined> {
+    return this.paginate(withPaging('/me/albums', { limit: pageSize }), savedAlbumPageSchema, signal);
+  }
+
+  // Spotify keeps only the last 50 plays, so one page is the whole history
+  async getRecentlyPlayed(limit = 50, { signal }: RequestOptions = {}): Promise<SpotifyPlayHistory[]> {
+    const { items } = await this.get(`/me/player/recently-played?limit=${limit}`, recentlyPlayedSchema, signal);
+    return items;
+  }
+
+  iterateTopTracks(timeRange: TopTimeRange, pageSize = 20, signal?: AbortSignal): AsyncGenerator<Paging<SpotifyTrack>, void, undefined> {
+    return this.paginate(`${withPaging('/me/top/tracks', { limit: pageSize })}&time_range=${timeRange}`, topTracksPageSchema, signal);
+  }
+
+  iterateTopArtists(timeRange: TopTimeRange, pageSize = 20, signal?: AbortSignal): AsyncGenerator<Paging<SpotifyArtist>, void, undefined> {
+    return this.paginate(`${withPaging('/me/top/artists', { limit: pageSize })}&time_range=${timeRange}`, topArtistsPageSchema, signal);
+  }
+
+  iterateMySavedShows(pageSize = 50, signal?: AbortSignal): AsyncGenerator<Paging<SpotifySavedShow>, void, undefined> {
+    return this.paginate(withPaging('/me/shows', { limit: pageSize }), savedShowPageSchema, signal);
+  }
+
+  // Drops the null entries for episodes that are unavailable
+  async *iterateShowEpisodes(showId: string, pageSize = 20, signal?: AbortSignal): AsyncGenerator<Paging<SpotifyEpisode>, void, undefined> {
+    const pages = this.paginate(
+      `${withPaging(`/shows/${encodeURIComponent(showId)}/episodes`, { limit: pageSize })}&market=from_token`,
+      episodePageSchema,
+      signal
+    );
+    for await (const page of pages) {
+      yield { ...page, items: page.items.filter(item => item !== null) };
+    }
+  }
+
+  getEpisode(episodeId: string, { signal }: RequestOptions = {}): Promise<SpotifyEpisode> {
+    return this.get(`/episodes/${encodeURIComponent(episodeId)}?market=from_token`, episodeSchema, signal);
+  }
+
+  async startPlayback({ deviceId, contextUri, uris, offset, positionMs, signal }: StartPlaybackOptions): Promise<void> {
+    const query = deviceId ? `?device_id=${encodeURIComponent(deviceId)}` : '';
+    await this.request(`/me/player/play${query}`, {
+      method: 'PUT',
+      signal,
+      body: JSON.stringify({
+        context_uri: contextUri,
+        uris,
+        offset,
+        position_ms: positionMs
+      })
+    });
+  }
+
+  async getDevices({ signal }: RequestOptions = {}): Promise<SpotifyDevice[]> {
+    const { devices } = await this.get('/me/player/devices', devicesSchema, signal);
+    return devices;
+  }
+
+  // Null when nothing is playing on any device (Spotify answers 204)
+  async getPlaybackState({ signal }: RequestOptions = {}): Promise<SpotifyPlayback | null> {
+    const path = '/me/player?additional_types=episode';
+    const response = await this.request(path, { signal });
+    if (response.status === 204) return null;
+    return this.parse(path, playbackSchema, response);
+  }
+
+  // Move playback to another device; Spotify carries the position over
+  async transferPlayback(deviceId: string, play: boolean, { signal }: RequestOptions = {}): Promise<void> {
+    await this.request('/me/player', {
+      method: 'PUT',
+      signal,
+      body: JSON.stringify({ device_ids: [deviceId], play })
+    });
+  }
+
+  async pausePlayback(deviceId?: string, { signal }: RequestOptions = {}): Promise<void> {
+    const query = deviceId ? `?device_id=${encodeURIComponent(deviceId)}` : '';
+    await this.request(`/me/player/pause${query}`, { method: 'PUT', signal });
+  }
+
+  async skipToNext(deviceId?: string, { signal }: RequestOptions = {}): Promise<void> {
+    const query = deviceId ? `?device_id=${encodeURIComponent(deviceId)}` : '';
+    await this.request(`/me/player/next${query}`, { method: 'POST', signal });
+  }
+
+  async skipToPrevious(deviceId?: string, { signal }: RequestOptions = {}): Promise<void> {
+    const query = deviceId ? `?device_id=${encodeURIComponent(deviceId)}` : '';
+    await this.request(`/me/player/previous${query}`, { method: 'POST', signal });
+  }
+
+  async seekTo(positionMs: number, deviceId?: string, { signal }: RequestOptions = {}): Promise<void> {
+    const params = new URLSearchParams({ position_ms: String(Math.round(positionMs)) });
+    if (deviceId) params.set('device_id', deviceId);
+    await this.request(`/me/player/seek?${params}`, { method: 'PUT', signal });
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResults> {
+    const results = await this.get(searchPath(query, options), searchResultsSchema, options.signal);
+    return normalizeSearchResults(results);
+  }
+
+  // Pages through the results for one type. Spotify stops offering more
+  // after the first 1000 results.
+  async *iterateSearch<K extends SearchType>(
+    query: string,
+    type: K,
+    pageSize = 20,
+    signal?: AbortSignal
+  ): AsyncGenerator<Paging<SearchItemMap[K]>, void, undefined> {
+    const key = `${type}s` as const;
+    let next: string | null = searchPath(query, { types: [type], limit: pageSize });
+    while (next) {
+      const results = normalizeSearchResults(await this.get(next, searchResultsSchema, signal));
+      const page = results[key] as Paging<SearchItemMap[K]> | undefined;
+      if (!page) return;
+      yield page;
+      next = page.next;
+    }
+  }
+
+  getArtist(artistId: string, { signal }: RequestOptions = {}): Promise<SpotifyArtist> {
+    return this.get(`/artists/${encodeURIComponent(artistId)}`, artistSchema, signal);
+  }
+
+  // Top tracks in the user's own market
+  async getArtistTopTracks(artistId: string, { signal }: RequestOptions = {}): Promise<SpotifyTrack[]> {
+    const { tracks } = await this.get(
+      `/artists/${encodeURIComponent(artistId)}/top-tracks?market=from_token`,
+      artistTopTracksSchema,
+      signal
+    );
+    return tracks;
+  }
+
+  iterateArtistAlbums(
+    artistId: string,
+    group: ArtistAlbumGroup,
+    pageSize = 20,
+    signal?: AbortSignal
+  ): AsyncGenerator<Paging<SpotifyArtistAlbum>, void, undefined> {
+    const params = new URLSearchParams({
+      include_groups: group,
+      market: 'from_token',
+      limit: String(pageSize)
+    });
+    return this.paginate(`/artists/${encodeURIComponent(artistId)}/albums?${params}`, artistAlbumPageSchema, signal);
+  }
+
+  // Spotify no longer serves this endpoint to newly registered apps, so
+  // callers should treat a failure as "no related artists"
+  async getRelatedArtists(artistId: string, { signal }: RequestOptions = {}): Promise<SpotifyArtist[]> {
+    const { artists } = await this.get(
+      `/artists/${encodeURIComponent(artistId)}/related-artists`,
+      relatedArtistsSchema,
+      signal
+    );
+    return artists;
+  }
+
+  getQueue({ signal }: RequestOptions = {}): Promise<SpotifyQueue> {
+    return this.get('/me/player/queue', queueSchema, signal);
+  }
+
+  async addToQueue(uri: string, deviceId?: string, { signal }: RequestOptions = {}): Promise<void> {
+    const params = new URLSearchParams({ uri });
+    if (deviceId) params.set('device_id', deviceId);
+    await this.request(`/me/player/queue?${params}`, { method: 'POST', signal });
+  }
+
+  async setShuffle(state: boolean, deviceId?: string, { signal }: RequestOptions = {}): Promise<void> {
+    const params = new URLSearchParams({ state: String(state) });
+    if (deviceId) params.set('device_id', deviceId);
+    await this.request(`/me/player/shuffle?${params}`, { method: 'PUT', signal });
+  }
+
+  async setRepeat(state: RepeatState, deviceId?: string, { signal }: RequestOptions = {}): Promise<void> {
+    const params = new URLSearchParams({ state });
+    if (deviceId) params.set('device_id', deviceId);
+    await this.request(`/me/player/repeat?${params}`, { method: 'PUT', signal });
+  }
+}
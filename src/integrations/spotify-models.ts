@@ -0,0 +1,397 @@
+import { z } from 'zod';
+
+// Schemas for the subset of the Spotify Web API we consume. Responses are
+// validated at runtime so a shape change on Spotify's side surfaces as a clear
+// error instead of an `undefined` deep inside a component.
+// Reference: https://developer.spotify.com/documentation/web-api
+
+export const imageSchema = z.object({
+  url: z.string(),
+  height: z.number().nullable().optional(),
+  width: z.number().nullable().optional()
+});
+
+// Generic paging object wrapper used by every list endpoint
+export function pagingSchema<T extends z.ZodTypeAny>(item: T) {
+  return z.object({
+    href: z.string(),
+    items: z.array(item),
+    limit: z.number(),
+    next: z.string().nullable(),
+    offset: z.number(),
+    previous: z.string().nullable(),
+    total: z.number()
+  });
+}
+
+export const publicUserSchema = z.object({
+  id: z.string(),
+  display_name: z.string().nullable().optional(),
+  images: z.array(imageSchema).optional(),
+  type: z.literal('user'),
+  uri: z.string()
+});
+
+export const privateUserSchema = publicUserSchema.extend({
+  email: z.string().optional(),
+  country: z.string().optional(),
+  product: z.string().optional()
+});
+
+export const simplifiedArtistSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.literal('artist'),
+  uri: z.string()
+});
+
+export const artistSchema = simplifiedArtistSchema.extend({
+  images: z.array(imageSchema),
+  genres: z.array(z.string()),
+  followers: z.object({ total: z.number() }),
+  popularity: z.number()
+});
+
+export const simplifiedAlbumSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  album_type: z.string(),
+  artists: z.array(simplifiedArtistSchema),
+  images: z.array(imageSchema),
+  release_date: z.string(),
+  release_date_precision: z.enum(['year', 'month', 'day']),
+  total_tracks: z.number(),
+  type: z.literal('album'),
+  uri: z.string()
+});
+
+// Local files in a playlist carry only the names from their tags: the album and
+// artists come back with null IDs, URIs and release dates
+const trackArtistSchema = simplifiedArtistSchema.extend({
+  id: z.string().nullable(),
+  uri: z.string().nullable()
+});
+
+const trackAlbumSchema = simplifiedAlbumSchema.extend({
+  id: z.string().nullable(),
+  album_type: z.string().nullable(),
+  artists: z.array(trackArtistSchema),
+  release_date: z.string().nullable(),
+  release_date_precision: z.enum(['year', 'month', 'day']).nullable(),
+  total_tracks: z.number().optional(),
+  uri: z.string().nullable()
+});
+
+export const trackSchema = z.object({
+  // Local files have no Spotify ID
+  id: z.string().nullable(),
+  name: z.string(),
+  album: trackAlbumSchema,
+  artists: z.array(trackArtistSchema),
+  disc_number: z.number(),
+  track_number: z.number(),
+  duration_ms: z.number(),
+  explicit: z.boolean(),
+  is_local: z.boolean(),
+  type: z.literal('track'),
+  uri: z.string()
+});
+
+export const showSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  publisher: z.string(),
+  description: z.string(),
+  images: z.array(imageSchema),
+  total_episodes: z.number().optional(),
+  type: z.literal('show'),
+  uri: z.string()
+});
+
+export const episodeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  duration_ms: z.number(),
+  explicit: z.boolean(),
+  images: z.array(imageSchema),
+  release_date: z.string(),
+  // Where the user left off, as synced across their devices. Only present
+  // with the user-read-playback-position scope.
+  resume_point: z.object({
+    fully_played: z.boolean(),
+    resume_position_ms: z.number()
+  }).optional(),
+  // Left out when listing a show's own episodes
+  show: showSchema.optional(),
+  type: z.literal('episode'),
+  uri: z.string()
+});
+
+export const playlistSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  collaborative: z.boolean(),
+  // Spotify returns null instead of an empty list for playlists without artwork
+  images: z.array(imageSchema).nullable(),
+  owner: publicUserSchema,
+  public: z.boolean().nullable(),
+  snapshot_id: z.string(),
+  tracks: z.object({
+    href: z.string(),
+    total: z.number()
+  }),
+  type: z.literal('playlist'),
+  uri: z.string()
+});
+
+export const playlistItemSchema = z.object({
+  added_at: z.string().nullable(),
+  is_local: z.boolean(),
+  // Removed or unavailable items come back as null
+  track: z.discriminatedUnion('type', [trackSchema, episodeSchema]).nullable()
+});
+
+// Every playlist edit answers with the playlist's new version
+export const playlistSnapshotSchema = z.object({
+  snapshot_id: z.string()
+});
+
+export const savedTrackSchema = z.object({
+  added_at: z.string(),
+  track: trackSchema
+});
+
+export const playlistPageSchema = pagingSchema(playlistSchema);
+export const playlistItemPageSchema = pagingSchema(playlistItemSchema);
+export const savedTrackPageSchema = pagingSchema(savedTrackSchema);
+
+export const savedAlbumSchema = z.object({
+  added_at: z.string(),
+  album: simplifiedAlbumSchema
+});
+
+export const savedAlbumPageSchema = pagingSchema(savedAlbumSchema);
+
+export const savedShowSchema = z.object({
+  added_at: z.string(),
+  show: showSchema
+});
+
+export const savedShowPageSchema = pagingSchema(savedShowSchema);
+// Episodes not available in the user's market come back as null
+export const episodePageSchema = pagingSchema(episodeSchema.nullable());
+
+export const deviceSchema = z.object({
+  // Restricted devices may not report an ID and cannot be targeted
+  id: z.string().nullable(),
+  is_active: z.boolean(),
+  is_private_session: z.boolean(),
+  is_restricted: z.boolean(),
+  name: z.string(),
+  // Computer, Smartphone, Speaker, TV, ...
+  type: z.string(),
+  volume_percent: z.number().nullable()
+});
+
+export const devicesSchema = z.object({
+  devices: z.array(deviceSchema)
+});
+
+const playbackDisallowsSchema = z.object({
+  interrupting_playback: z.boolean().optional(),
+  pausing: z.boolean().optional(),
+  resuming: z.boolean().optional(),
+  seeking: z.boolean().optional(),
+  skipping_next: z.boolean().optional(),
+  skipping_prev: z.boolean().optional(),
+  toggling_repeat_context: z.boolean().optional(),
+  toggling_repeat_track: z.boolean().optional(),
+  toggling_shuffle: z.boolean().optional(),
+  transferring_playback: z.boolean().optional()
+});
+
+// /me/player: what is playing on whichever device is active for the user
+export const playbackSchema = z.object({
+  device: deviceSchema,
+  repeat_state: z.enum(['off', 'context', 'track']),
+  shuffle_state: z.boolean(),
+  context: z.object({
+    type: z.string(),
+    uri: z.string()
+  }).nullable(),
+  timestamp: z.number(),
+  progress_ms: z.number().nullable(),
+  is_playing: z.boolean(),
+  // Null for ads and while Spotify is between tracks
+  item: z.discriminatedUnion('type', [trackSchema, episodeSchema]).nullable(),
+  currently_playing_type: z.string(),
+  actions: z.object({
+    disallows: playbackDisallowsSchema.optional()
+  }).optional()
+});
+
+// /search returns one paging object per requested type. Playlists that
+// were removed after indexing come back as null items.
+export const searchResultsSchema = z.object({
+  tracks: pagingSchema(trackSchema).optional(),
+  albums: pagingSchema(simplifiedAlbumSchema).optional(),
+  artists: pagingSchema(artistSchema).optional(),
+  playlists: pagingSchema(playlistSchema.nullable()).optional()
+});
+
+// /me/player/recently-played pages by timestamp cursor rather than offset
+export const playHistorySchema = z.object({
+  track: trackSchema,
+  played_at: z.string(),
+  context: z.object({ uri: z.string() }).nullable()
+});
+
+export const recentlyPlayedSchema = z.object({
+  items: z.array(playHistorySchema),
+  next: z.string().nullable(),
+  limit: z.number()
+});
+
+export const topTracksPageSchema = pagingSchema(trackSchema);
+export const topArtistsPageSchema = pagingSchema(artistSchema);
+
+// /me/tracks/contains answers with one flag per requested ID, in order
+export const savedTracksContainsSchema = z.array(z.boolean());
+
+export const artistTopTracksSchema = z.object({
+  tracks: z.array(trackSchema)
+});
+
+export const relatedArtistsSchema = z.object({
+  artists: z.array(artistSchema)
+});
+
+// /artists/{id}/albums also says how the artist relates to each release
+export const artistAlbumSchema = simplifiedAlbumSchema.extend({
+  album_group: z.enum(['album', 'single', 'compilation', 'appears_on']).optional()
+});
+
+export const artistAlbumPageSchema = pagingSchema(artistAlbumSchema);
+
+// /me/player/queue: tracks and episodes alike
+const playableItemSchema = z.discriminatedUnion('type', [trackSchema, episodeSchema]);
+
+export const queueSchema = z.object({
+  currently_playing: playableItemSchema.nullable(),
+  queue: z.array(playableItemSchema)
+});
+
+export interface Paging<T> {
+  href: string;
+  items: T[];
+  limit: number;
+  next: string | null;
+  offset: number;
+  previous: string | null;
+  total: number;
+}
+
+export type SpotifyImage = z.infer<typeof imageSchema>;
+export type SpotifyPublicUser = z.infer<typeof publicUserSchema>;
+export type SpotifyUser = z.infer<typeof privateUserSchema>;
+export type SpotifySimplifiedArtist = z.infer<typeof simplifiedArtistSchema>;
+export type SpotifyArtist = z.infer<typeof artistSchema>;
+export type SpotifySimplifiedAlbum = z.infer<typeof simplifiedAlbumSchema>;
+export type SpotifyTrack = z.infer<typeof trackSchema>;
+export type SpotifyShow = z.infer<typeof showSchema>;
+export type SpotifyEpisode = z.infer<typeof episodeSchema>;
+export type SpotifyPlaylist = z.infer<typeof playlistSchema>;
+export type SpotifyPlaylistItem = z.infer<typeof playlistItemSchema>;
+export type SpotifySavedTrack = z.infer<typeof savedTrackSchema>;
+export type SpotifySavedAlbum = z.infer<typeof savedAlbumSchema>;
+export type SpotifySavedShow = z.infer<typeof savedShowSchema>;
+export type SpotifyArtistAlbum = z.infer<typeof artistAlbumSchema>;
+export type SpotifyPlayHistory = z.infer<typeof playHistorySchema>;
+export type SpotifyDevice = z.infer<typeof deviceSchema>;
+export type SpotifyPlayback = z.infer<typeof playbackSchema>;
+export type SpotifyPlayableItem = z.infer<typeof playableItemSchema>;
+export type SpotifyQueue = z.infer<typeof queueSchema>;
+
+// Listening windows for /me/top: roughly 4 weeks, 6 months and all time
+export type TopTimeRange = 'short_term' | 'medium_term' | 'long_term';
+
+// Discography sections on an artist page, in display order
+export type ArtistAlbumGroup = 'album' | 'single' | 'compilation';
+
+export type SearchType = 'track' | 'album' | 'artist' | 'playlist';
+
+// Item type of the results for each search type
+export interface SearchItemMap {
+  track: SpotifyTrack;
+  album: SpotifySimplifiedAlbum;
+  artist: SpotifyArtist;
+  playlist: SpotifyPlaylist;
+}
+
+export type SearchResults = {
+  [K in SearchType as `${K}s`]?: Paging<SearchItemMap[K]>;
+};
+
+// Smallest image at least `minSize` pixels wide (Spotify lists them largest
+// first), falling back to the largest one available
+export function pickImageUrl(images: SpotifyImage[] | null | undefined, minSize = 0): string | null {
+  if (!images || images.length === 0) return null;
+  const bigEnough = images.filter(image => (image.width ?? Infinity) >= minSize);
+  return (bigEnough[bigEnough.length - 1] ?? images[0]).url;
+}
+
+// The ID in a URI such as `spotify:artist:<id>`, or null when the URI is for
+// another kind of item (or a local file)
+export function spotifyIdFromUri(uri: string, type: string): string | null {
+  const [scheme, uriType, id] = uri.split(':');
+  return scheme === 'spotify' && uriType === type && id ? id : null;
+}
+
+// Artwork and byline for anything that can be played
+export function describePlayableItem(item: SpotifyPlayableItem): { imageUrl: string | null; subtitle: string } {
+  if (item.type === 'track') {
+    return {
+      imageUrl: pickImageUrl(item.album.images, 64),
+      subtitle: item.artists.map(artist => artist.name).join(', ')
+    };
+  }
+  return { imageUrl: pickImageUrl(item.images, 64), subtitle: item.show?.name ?? 'Podcast episode' };
+}
+
+// The user's saved tracks are not a real playlist in the Web API, but the
+// collection grid treats them as one. This is the typed stand-in for it.
+export const LIKED_SONGS_ID = 'liked-songs';
+
+export interface LikedSongsCollection {
+  id: typeof LIKED_SONGS_ID;
+  name: string;
+  description: string;
+  images: SpotifyImage[];
+  tracks: {
+    total: number;
+  };
+  type: 'liked-songs';
+  uri: string;
+}
+
+export type LibraryPlaylist = SpotifyPlaylist | LikedSongsCollection;
+
+export function createLikedSongsCollection(total: number): LikedSongsCollection {
+  return {
+    id: LIKED_SONGS_ID,
+    name: 'Liked Songs',
+    description: 'Your Liked Songs collection',
+    images: [{ url: 'https://misc.scdn.co/liked-songs/liked-songs-640.png' }],
+    tracks: {
+      total
+    },
+    type: 'liked-songs',
+    uri: 'spotify:user:liked-songs'
+  };
+}
+
+export function isLikedSongs(playlist: LibraryPlaylist): playlist is LikedSongsCollection {
+  return playlist.type === 'liked-songs';
+}
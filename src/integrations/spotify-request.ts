@@ -0,0 +1,183 @@
+// Shared request pipeline for every Spotify Web API call. It attaches the
+// bearer token and recovers from the failures Spotify expects clients to handle:
+// - 401: refresh the access token once and replay the request
+// - 429: wait for the Retry-After interval and try again
+// - 5xx and network errors: retry with jittered exponential backoff, for
+//   idempotent methods only. A POST may have reached Spotify before failing,
+//   and replaying it would add tracks or skip twice.
+// Anything else is thrown as a SpotifyApiError.
+
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+// Give up instead of waiting when Spotify asks us to back off for longer than this
+const MAX_RETRY_AFTER_MS = 60000;
+// Methods that are safe to send again when the outcome of an attempt is unknown
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE']);
+
+export type SpotifyApiErrorKind =
+  | 'bad_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'rate_limited'
+  | 'server'
+  | 'network'
+  | 'aborted'
+  | 'unknown';
+
+// Structured error for a failed Web API request. `reason` carries Spotify's
+// machine-readable reason when present, e.g. PREMIUM_REQUIRED or NO_ACTIVE_DEVICE.
+export class SpotifyApiError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: SpotifyApiErrorKind,
+    public readonly status: number,
+    public readonly method: string,
+    public readonly path: string,
+    public readonly body: string = '',
+    public readonly reason: string | null = null,
+    public readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'SpotifyApiError';
+  }
+}
+
+export interface RequestAuth {
+  getAccessToken: () => string | null;
+  // Resolves false when the session cannot be refreshed
+  refreshAccessToken: () => Promise<boolean>;
+  // Called when a request is still unauthorized after a refresh
+  onAuthFailure: () => void;
+}
+
+function kindForStatus(status: number): SpotifyApiErrorKind {
+  if (status === 400) return 'bad_request';
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server';
+  return 'unknown';
+}
+
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  // Full jitter keeps clients that failed together from retrying together
+  return Math.random() * ceiling;
+}
+
+function retryAfterDelay(response: Response): number {
+  const header = response.headers.get('Retry-After');
+  const seconds = header ? Number(header) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : BASE_BACKOFF_MS;
+}
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function errorFromResponse(response: Response, method: string, path: string, retryAfterMs: number | null): Promise<SpotifyApiError> {
+  const body = (await response.text()).substring(0, 200); // Limit length
+  let reason: string | null = null;
+  try {
+    reason = JSON.parse(body)?.error?.reason ?? null;
+  } catch {
+    // Not every error body is JSON
+  }
+  return new SpotifyApiError(
+    `Spotify API request to ${path} failed: HTTP ${response.status}`,
+    kindForStatus(response.status),
+    response.status,
+    method,
+    path,
+    body,
+    reason,
+    retryAfterMs
+  );
+}
+
+export async function sendSpotifyRequest(url: string, init: RequestInit, auth: RequestAuth): Promise<Response> {
+  const method = (init.method ?? 'GET').toUpperCase();
+  const canRetry = IDEMPOTENT_METHODS.has(method);
+  const path = url.replace(/^https:\/\/[^/]+/, '');
+  const signal = init.signal;
+  let refreshed = false;
+
+  const cancelled = () => new SpotifyApiError(`Spotify API request to ${path} was cancelled`, 'aborted', 0, method, path);
+  const wait = (ms: number) => delay(ms, signal).catch(() => {
+    throw cancelled();
+  });
+
+  for (let attempt = 0; ; attempt++) {
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Bearer ${auth.getAccessToken() ?? ''}`);
+
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, headers });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw cancelled();
+      }
+      if (canRetry && attempt < MAX_RETRIES) {
+        await wait(backoffDelay(attempt));
+        continue;
+      }
+      throw new SpotifyApiError(
+        `Spotify API request to ${path} failed: ${error instanceof Error ? error.message : 'network error'}`,
+        'network',
+        0,
+        method,
+        path
+      );
+    }
+
+    if (response.ok) {
+      return response;
+    }
+
+    if (response.status === 401 && !refreshed) {
+      refreshed = true;
+      if (await auth.refreshAccessToken()) {
+        continue;
+      }
+    }
+
+    if (response.status === 429) {
+      const retryAfterMs = retryAfterDelay(response);
+      if (attempt < MAX_RETRIES && retryAfterMs <= MAX_RETRY_AFTER_MS) {
+        console.warn(`Spotify API rate limited, retrying ${path} in ${Math.round(retryAfterMs / 1000)}s`);
+        await wait(retryAfterMs);
+        continue;
+      }
+      throw await errorFromResponse(response, method, path, retryAfterMs);
+    }
+
+    if (response.status >= 500 && canRetry && attempt < MAX_RETRIES) {
+      await wait(backoffDelay(attempt));
+      continue;
+    }
+
+    const error = await errorFromResponse(response, method, path, null);
+    if (error.kind === 'unauthorized') {
+      auth.onAuthFailure();
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,99 @@
+import { spotifyService } from './spotify';
+import type { RepeatState } from './spotify-api';
+import { pickImageUrl, type Paging } from './spotify-models';
+import type { MusicSource, MusicSourceEvents, SourceCollection } from './music-source';
+import { TypedEmitter } from '../lib/typed-emitter';
+
+// Spotify as a music source. Everything is delegated to spotifyService; its
+// own panel (SpotifyPlayer) keeps handling sign-in, devices and the library.
+class SpotifySource implements MusicSource {
+  readonly id = 'spotify';
+  readonly name = 'Spotify';
+  private events = new TypedEmitter<MusicSourceEvents>();
+  private connected = spotifyService.isLoggedIn();
+
+  constructor() {
+    spotifyService.on('state', state => this.events.emit('state', state));
+    // Token changes include every refresh; only signing in or out matters here
+    spotifyService.on('token', () => {
+      const connected = spotifyService.isLoggedIn();
+      if (connected !== this.connected) {
+        this.connected = connected;
+        this.events.emit('library', undefined);
+      }
+    });
+  }
+
+  on<K extends keyof MusicSourceEvents>(event: K, listener: (payload: MusicSourceEvents[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  isConnected(): boolean {
+    return spotifyService.isLoggedIn();
+  }
+
+  connect(): Promise<void> {
+    return spotifyService.login();
+  }
+
+  async disconnect(): Promise<void> {
+    spotifyService.logout();
+  }
+
+  async *iterateCollections(signal?: AbortSignal): AsyncGenerator<Paging<SourceCollection>, void, undefined> {
+    for await (const page of spotifyService.iterateUserPlaylists(signal)) {
+      yield {
+        ...page,
+        items: page.items.map(playlist => ({
+          id: playlist.uri,
+          name: playlist.name,
+          subtitle: playlist.owner.display_name ?? playlist.owner.id,
+          imageUrl: pickImageUrl(playlist.images, 300),
+          trackCount: playlist.tracks.total
+        }))
+      };
+    }
+  }
+
+  playCollection(collectionId: string): Promise<void> {
+    return spotifyService.playUri(collectionId);
+  }
+
+  getPlaybackState(): Spotify.PlaybackState | null {
+    return spotifyService.getPlaybackState();
+  }
+
+  togglePlayback(): Promise<void> {
+    return spotifyService.togglePlayback();
+  }
+
+  pause(): Promise<void> {
+    return spotifyService.pause();
+  }
+
+  seek(positionMs: number): Promise<void> {
+    return spotifyService.seek(positionMs);
+  }
+
+  nextTrack(): Promise<void> {
+    return spotifyService.nextTrack();
+  }
+
+  previousTrack(): Promise<void> {
+    return spotifyService.previousTrack();
+  }
+
+  isShuffling(state: Spotify.PlaybackState | null): boolean {
+    return spotifyService.isShuffling(state);
+  }
+
+  setShuffle(enabled: boolean): Promise<void> {
+    return spotifyService.setShuffle(enabled);
+  }
+
+  setRepeatMode(mode: RepeatState): Promise<void> {
+    return spotifyService.setRepeatMode(mode);
+  }
+}
+
+export const spotifySource = new SpotifySource();
@@ -1,8 +1,55 @@
 // Spotify SDK type definitions are in src/types/spotify.d.ts
+import { SpotifyApiClient, type PlaylistDetailsInput, type RepeatState } from './spotify-api';
+import { SpotifyApiError } from './spotify-request';
+import { LikedSongsQueue } from './liked-songs-queue';
+import { createTokenStore, type StoredTokens, type TokenStore } from './token-store';
+import { TokenRefreshScheduler } from './token-refresh-scheduler';
+import { AccountRegistry, type SpotifyAccount } from './accounts';
+import { sdkNoiseFilter } from './sdk-noise';
+import { TypedEmitter } from '../lib/typed-emitter';
+import { RemotePlaybackPoller, toPlaybackState } from './remote-playback';
+import { PlaylistEditor } from './playlist-editor';
+import { ResumePoints } from './resume-points';
+import {
+  createLikedSongsCollection,
+  LIKED_SONGS_ID,
+  type ArtistAlbumGroup,
+  type LikedSongsCollection,
+  type Paging,
+  type SearchItemMap,
+  type SearchResults,
+  type SearchType,
+  type SpotifyArtist,
+  type SpotifyArtistAlbum,
+  type SpotifyDevice,
+  type SpotifyEpisode,
+  type SpotifyPlayHistory,
+  type SpotifyPlayback,
+  type SpotifyPlaylist,
+  type SpotifyQueue,
+  type SpotifySavedAlbum,
+  type SpotifySavedShow,
+  type SpotifyTrack,
+  type TopTimeRange
+} from './spotify-models';
 
 // Load from environment variables
-const SPOTIFY_CLIENT_ID = import.meta.env.VITE_SPOTIFY_CLIENT_ID;
+// 'true' runs against the built-in simulator; 'manual' also stops its clock
+const SIMULATOR = import.meta.env.VITE_SPOTIFY_SIMULATOR;
+const SIMULATOR_ENABLED = SIMULATOR === 'true' || SIMULATOR === 'manual';
+// The simulator accepts any client ID, so none needs registering to use it
+const SPOTIFY_CLIENT_ID = import.meta.env.VITE_SPOTIFY_CLIENT_ID || (SIMULATOR_ENABLED ? 'simulator' : undefined);
 const REDIRECT_URI = import.meta.env.VITE_SPOTIFY_REDIRECT_URI || `${window.location.origin}/callback`;
+const TOKEN_STORAGE = import.meta.env.VITE_SPOTIFY_TOKEN_STORAGE;
+const SUPPRESS_SDK_NOISE = import.meta.env.VITE_SPOTIFY_SUPPRESS_SDK_NOISE !== 'false';
+
+// Loaded on demand so production builds leave the simulator and its fixtures
+// out. Anything that could reach Spotify waits for this first.
+const simulatorInstalled: Promise<void> = SIMULATOR_ENABLED
+  ? import('./simulator/install').then(({ installSpotifySimulator }) => {
+      installSpotifySimulator({ manualClock: SIMULATOR === 'manual' });
+    })
+  : Promise.resolve();
 
 function requireSpotifyClientId(): string {
   if (!SPOTIFY_CLIENT_ID) {
@@ -17,13 +64,21 @@ const SCOPES = [
   'user-read-email',
   'playlist-read-private',
   'playlist-read-collaborative',
+  'playlist-modify-public',
+  'playlist-modify-private',
   'streaming',
   'user-read-playback-state',
   'user-modify-playback-state',
   'user-read-currently-playing',
-  'user-library-read'
+  'user-library-read',
+  'user-library-modify',
+  'user-read-recently-played',
+  'user-top-read',
+  'user-read-playback-position'
 ];
 
+const PLAYLIST_MODIFY_SCOPES = ['playlist-modify-public', 'playlist-modify-private'];
+
 // Console log the actual redirect URL being used - can be removed after debugging
 console.log('Using Spotify redirect URL:', REDIRECT_URI);
 
@@ -57,109 +112,342 @@ async function generateCodeChallenge(codeVerifier: string): Promise<string> {
     .replace(/\//g, '_');
 }
 
+// Thrown when there is nowhere to play: no player in this browser and no
+// other Spotify device online
+export class NoPlaybackDeviceError extends Error {
+  constructor() {
+    super('No Spotify device is available to play on');
+    this.name = 'NoPlaybackDeviceError';
+  }
+}
+
+// Thrown when the session was authorized before the app asked for a scope a
+// feature needs. Signing in again with login() grants it.
+export class MissingScopeError extends Error {
+  constructor(public readonly scopes: string[]) {
+    super(`Spotify access has not been granted for: ${scopes.join(', ')}`);
+    this.name = 'MissingScopeError';
+  }
+}
+
+// A record placed on the turntable but not playing yet. Pressing play
+// drops the needle on it.
+export interface CuedRecord {
+  uri: string;
+  // Album or playlist to play a cued track within
+  contextUri?: string;
+  name: string;
+  subtitle: string;
+  imageUrl: string | null;
+  // Where to start, e.g. an episode's resume point
+  positionMs?: number;
+}
+
+export type SpotifyPlayerErrorKind = 'initialization' | 'authentication' | 'account' | 'playback';
+
+// Events published by SpotifyService. Subscribe with spotifyService.on(),
+// which returns the matching unsubscribe function.
+export interface SpotifyServiceEvents {
+  // Playback changed, either on the in-browser player or, while the audio is
+  // on another Connect device, as polled from the Web API. Null when idle.
+  state: Spotify.PlaybackState | null;
+  // The Connect device playing when it is not this browser; null otherwise
+  remote_device: SpotifyDevice | null;
+  ready: { deviceId: string };
+  not_ready: { deviceId: string };
+  error: { kind: SpotifyPlayerErrorKind; message: string };
+  // A record was put on the turntable, or taken off it (null)
+  cued: CuedRecord | null;
+  // A track or episode was added to the play queue from this app
+  queued: { uri: string };
+  // A track was liked or unliked from this app. Fired optimistically, and
+  // again with the old value if Spotify rejects the change.
+  track_saved: { trackId: string; saved: boolean };
+  // The session's access token changed: login, refresh, account switch or sign out (null)
+  token: { accessToken: string | null; expiresAt: number | null };
+}
+
 export class SpotifyService {
   private static instance: SpotifyService;
   private accessToken: string | null = null;
   private refreshToken: string | null = null;
   private tokenExpiration: number | null = null;
+  // Scopes Spotify reported for this session; null when unknown, e.g. for a
+  // session restored from storage that predates the last token response
+  private grantedScopes: Set<string> | null = null;
   private player: Spotify.Player | null = null;
   private deviceId: string | null = null;
-  private stateCallback: ((state: Spotify.PlaybackState | null) => void) | null = null;
+  private events = new TypedEmitter<SpotifyServiceEvents>();
+  private playbackState: Spotify.PlaybackState | null = null;
   private initializationPromise: Promise<boolean> | null = null;
   private connectionAttempts: number = 0;
-
-  private constructor() {
-    // Restore tokens from local storage if available
-    const storedToken = localStorage.getItem('spotify_access_token');
-    const storedExpiration = localStorage.getItem('spotify_token_expiration');
-    const storedRefreshToken = localStorage.getItem('spotify_refresh_token');
-    
-    if (storedToken && storedExpiration) {
-      this.accessToken = storedToken;
-      this.tokenExpiration = parseInt(storedExpiration, 10);
-      this.refreshToken = storedRefreshToken;
+  private refreshPromise: Promise<boolean> | null = null;
+  private api = new SpotifyApiClient({
+    getAccessToken: () => this.accessToken,
+    refreshAccessToken: () => this.refreshAccessToken(),
+    onAuthFailure: () => {
+      console.error('Access token expired or invalid');
+      this.clearTokens();
     }
-    
-    // Override fetch to intercept and handle cpapi.spotify.com requests
-    // These are analytics events and 404/400 errors are non-critical
-    const originalFetch = window.fetch;
-    window.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
-      // Get the URL string regardless of input type
-      const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
-      
-      try {
-        // Process normally
-        const response = await originalFetch(input, init);
-        
-        // If it's a cpapi request with a 404 or 400 status, log but don't error
-        if (url.includes('cpapi.spotify.com') && (response.status === 404 || response.status === 400)) {
-          console.log(`Non-critical Spotify analytics error: ${response.status} for ${url}`);
-          // Return a synthetic OK response to prevent errors from bubbling up
-          return new Response(JSON.stringify({ok: true}), {
-            status: 200,
-            headers: {'Content-Type': 'application/json'}
-          });
-        }
-        
-        return response;
-      } catch (error) {
-        // If it's a cpapi request, log but don't throw
-        if (url.includes('cpapi.spotify.com')) {
-          console.log(`Suppressed Spotify analytics error for ${url}:`, error);
-          // Return a synthetic OK response
-          return new Response(JSON.stringify({ok: true}), {
-            status: 200,
-            headers: {'Content-Type': 'application/json'}
-          });
-        }
-        
-        // Re-throw for other requests
-        throw error;
-      }
-    };
+  });
+  private likedSongsQueue: LikedSongsQueue | null = null;
+  private accounts = new AccountRegistry();
+  private activeAccountId: string | null = null;
+  // One store per account, kept so in-memory stores survive switching away and back
+  private tokenStores = new Map<string, TokenStore>();
+  private tokenStore!: TokenStore;
+  private refreshScheduler = new TokenRefreshScheduler({
+    refresh: () => this.refreshAccessToken(),
+    onRemoteTokens: (tokens) => this.applyRemoteTokens(tokens)
+  });
+  private tokensRestored: Promise<void>;
+  private remoteDevice: SpotifyDevice | null = null;
+  // No player in this browser; everything plays on other Connect devices
+  private remoteControlOnly = false;
+  private cuedRecord: CuedRecord | null = null;
+  private resumePoints = new ResumePoints();
+  private remotePoller = new RemotePlaybackPoller({
+    fetch: (signal) => this.api.getPlaybackState({ signal }),
+    onPlayback: (playback) => this.applyRemotePlayback(playback)
+  });
+
+  private constructor(
+    private readonly createStore: (accountId: string | null) => TokenStore = (accountId) => createTokenStore(TOKEN_STORAGE, accountId)
+  ) {
+    // Restore the last active account's tokens if available
+    this.useAccount(this.accounts.getActiveId());
+    this.tokensRestored = this.restoreTokens();
   }
 
   static getInstance(): SpotifyService {
     if (!SpotifyService.instance) {
       SpotifyService.instance = new SpotifyService();
-      
-      // Add fetch override to intercept and handle problematic requests gracefully
-      const originalFetch = window.fetch;
-      window.fetch = async function(input, init) {
-        const url = input instanceof Request ? input.url : input.toString();
-        
-        // If this is a request to cpapi.spotify.com, which often 404s but doesn't affect core functionality
-        if (url.includes('cpapi.spotify.com') && url.includes('event')) {
-          try {
-            const response = await originalFetch(input, init);
-            // Just log these errors without throwing
-            if (!response.ok && (response.status === 404 || response.status === 400)) {
-              console.debug(`Handled non-critical Spotify event API error: ${response.status} for ${url}`);
-              // Return a synthetic "OK" response to prevent errors bubbling up
-              return new Response(JSON.stringify({ handled: true }), { 
-                status: 200, 
-                headers: new Headers({ 'Content-Type': 'application/json' }) 
-              });
-            }
-            return response;
-          } catch (error) {
-            // For network errors on these endpoints, return a synthetic response
-            console.debug(`Suppressed network error to Spotify event API: ${url}`, error);
-            return new Response(JSON.stringify({ handled: true }), { 
-              status: 200, 
-              headers: new Headers({ 'Content-Type': 'application/json' }) 
-            });
-          }
-        }
-        
-        // All other requests proceed normally
-        return originalFetch(input, init);
-      };
+
+      // The Web Playback SDK is noisy about its analytics calls; filter that
+      // once for the whole app unless it is switched off for debugging
+      if (SUPPRESS_SDK_NOISE) {
+        sdkNoiseFilter.install();
+      }
     }
     
     return SpotifyService.instance;
   }
 
+  // Subscribe to player and session events. Any number of components can
+  // listen at once; call the returned function to stop listening.
+  on<K extends keyof SpotifyServiceEvents>(
+    event: K,
+    listener: (payload: SpotifyServiceEvents[K]) => void
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  // Last state reported by the player, for subscribers that mount mid-song
+  getPlaybackState(): Spotify.PlaybackState | null {
+    return this.playbackState;
+  }
+
+  private recordGrantedScopes(scope: unknown): void {
+    if (typeof scope === 'string') {
+      this.grantedScopes = new Set(scope.split(' ').filter(Boolean));
+    }
+  }
+
+  // Run a request that needs scopes older sessions may lack. Fails fast when
+  // the grant is known to be missing them. When the grant is unknown, a 403
+  // is taken to mean the same; with the scopes granted it is a real refusal.
+  private async withScopes<T>(scopes: string[], request: () => Promise<T>): Promise<T> {
+    const missing = this.grantedScopes ? scopes.filter(scope => !this.grantedScopes?.has(scope)) : [];
+    if (missing.length > 0) {
+      throw new MissingScopeError(missing);
+    }
+
+    try {
+      return await request();
+    } catch (error) {
+      if (!this.grantedScopes && error instanceof SpotifyApiError && error.kind === 'forbidden') {
+        throw new MissingScopeError(scopes);
+      }
+      throw error;
+    }
+  }
+
+  // withScopes() for each page of a paged collection
+  private async *iterateWithScopes<T>(scopes: string[], pages: AsyncGenerator<T, void, undefined>): AsyncGenerator<T, void, undefined> {
+    while (true) {
+      const result = await this.withScopes(scopes, () => pages.next());
+      if (result.done) return;
+      yield result.value;
+    }
+  }
+
+  private emitToken(): void {
+    this.events.emit('token', { accessToken: this.accessToken, expiresAt: this.tokenExpiration });
+  }
+
+  private async restoreTokens(): Promise<void> {
+    try {
+      // Installed first so nothing reaches Spotify, not even restoring a session
+      await simulatorInstalled;
+      const tokens = await this.tokenStore.load();
+      if (tokens) {
+        this.accessToken = tokens.accessToken;
+        this.refreshToken = tokens.refreshToken;
+        this.tokenExpiration = tokens.expiresAt;
+      }
+    } catch (error) {
+      console.error('Error restoring Spotify session:', error);
+      return;
+    }
+
+    // Stores that keep the access token in memory only hand back just the
+    // refresh token after a reload, so trade it for a new access token now
+    if (this.refreshToken && this.isTokenExpired()) {
+      await this.refreshAccessToken();
+    } else {
+      this.refreshScheduler.schedule(this.tokenExpiration);
+      this.emitToken();
+    }
+
+    // Sessions saved before multi-account support are not tied to a user yet
+    if (this.isLoggedIn()) {
+      await this.adoptSessionAccount();
+    }
+  }
+
+  private getTokenStore(accountId: string | null): TokenStore {
+    const key = accountId ?? '';
+    let store = this.tokenStores.get(key);
+    if (!store) {
+      store = this.createStore(accountId);
+      this.tokenStores.set(key, store);
+    }
+    return store;
+  }
+
+  // Point token storage, cross-tab refresh coordination and the persisted
+  // active account at the given account (null for a not-yet-identified login).
+  // `sameSession` files the current session under its account, so the scopes
+  // its token response reported still apply.
+  private useAccount(accountId: string | null, sameSession = false) {
+    this.activeAccountId = accountId;
+    if (!sameSession) {
+      this.grantedScopes = null;
+    }
+    this.accounts.setActiveId(accountId);
+    this.tokenStore = this.getTokenStore(accountId);
+    this.refreshScheduler.setScope(accountId ?? 'default');
+  }
+
+  // Look up who the current session belongs to, refresh their stored profile
+  // and file the tokens under that account
+  private async adoptSessionAccount(): Promise<void> {
+    let account: SpotifyAccount;
+    try {
+      const profile = await this.api.getCurrentUser();
+      account = {
+        id: profile.id,
+        displayName: profile.display_name || profile.id,
+        avatarUrl: profile.images?.[0]?.url ?? null
+      };
+    } catch (error) {
+      console.error('Error loading Spotify profile:', error);
+      return;
+    }
+
+    this.accounts.upsert(account);
+    if (account.id === this.activeAccountId) return;
+
+    const unscopedStore = this.tokenStore;
+    this.useAccount(account.id, true);
+    await this.saveTokens();
+    await unscopedStore.clear();
+  }
+
+  getAccounts(): SpotifyAccount[] {
+    return this.accounts.list();
+  }
+
+  getActiveAccount(): SpotifyAccount | null {
+    return this.activeAccountId ? this.accounts.get(this.activeAccountId) : null;
+  }
+
+  // Swap to another signed-in account without reloading the page. The player
+  // is disconnected; call initializePlayer() again to reconnect it with the
+  // new account's token. Resolves false if that account needs to log in again.
+  async switchAccount(accountId: string): Promise<boolean> {
+    if (accountId === this.activeAccountId) {
+      return this.isLoggedIn();
+    }
+
+    console.log('Switching Spotify account');
+    this.disconnectPlayer();
+    this.refreshScheduler.cancel();
+    this.accessToken = null;
+    this.refreshToken = null;
+    this.tokenExpiration = null;
+    this.useAccount(accountId);
+    this.tokensRestored = this.restoreTokens();
+    await this.tokensRestored;
+    return this.isLoggedIn();
+  }
+
+  // Sign in another account alongside the current one
+  async addAccount(): Promise<void> {
+    // Show Spotify's dialog so a different user can sign in
+    localStorage.setItem('spotify_force_login', 'true');
+    await this.login();
+  }
+
+  // Another tab refreshed the session; adopt its tokens rather than spending
+  // our (now rotated) refresh token
+  private applyRemoteTokens(tokens: StoredTokens) {
+    console.log('Received refreshed Spotify tokens from another tab');
+    this.accessToken = tokens.accessToken;
+    this.refreshToken = tokens.refreshToken;
+    this.tokenExpiration = tokens.expiresAt;
+    this.refreshScheduler.schedule(this.tokenExpiration);
+    this.emitToken();
+  }
+
+  // Resolves once tokens have been read back from the token store. Await this
+  // before the first isLoggedIn() check, since some stores are asynchronous.
+  whenReady(): Promise<void> {
+    return this.tokensRestored;
+  }
+
+  // Swap the token storage backend, e.g. to inject a fake store in tests.
+  // The session is reloaded from the new store.
+  async setTokenStore(tokenStore: TokenStore): Promise<void> {
+    this.tokenStore = tokenStore;
+    this.tokenStores.set(this.activeAccountId ?? '', tokenStore);
+    this.accessToken = null;
+    this.refreshToken = null;
+    this.tokenExpiration = null;
+    this.tokensRestored = this.restoreTokens();
+    await this.tokensRestored;
+  }
+
+  // Persist new tokens, share them with other tabs and schedule the next refresh
+  private async saveTokens(): Promise<void> {
+    if (!this.accessToken || !this.tokenExpiration) return;
+
+    const tokens: StoredTokens = {
+      accessToken: this.accessToken,
+      refreshToken: this.refreshToken,
+      expiresAt: this.tokenExpiration
+    };
+    this.refreshScheduler.schedule(this.tokenExpiration);
+    this.refreshScheduler.broadcast(tokens);
+    this.emitToken();
+
+    try {
+      await this.tokenStore.save(tokens);
+    } catch (error) {
+      console.error('Error saving Spotify session:', error);
+    }
+  }
+
   async login() {
     const clientId = requireSpotifyClientId();
 
@@ -169,7 +457,6 @@ export class SpotifyService {
     // Generate and store code verifier
     const codeVerifier = generateCodeVerifier(128);
     localStorage.setItem('spotify_code_verifier', codeVerifier);
-    console.log('Generated and stored code verifier:', codeVerifier.substring(0, 5) + '...');
     
     // Generate code challenge
     const codeChallenge = await generateCodeChallenge(codeVerifier);
@@ -198,7 +485,7 @@ export class SpotifyService {
     }
     
     authUrl.search = params.toString();
-    console.log('Redirecting to Spotify auth with URL:', authUrl.toString());
+    console.log('Redirecting to Spotify auth');
     
     // Verify code verifier is stored correctly before redirecting
     const storedVerifier = localStorage.getItem('spotify_code_verifier');
@@ -209,11 +496,16 @@ export class SpotifyService {
       console.log('Stored code verifier in sessionStorage as fallback');
     }
     
+    if (SIMULATOR_ENABLED) {
+      const { simulatedAuthorizeRedirect } = await import('./simulator/simulated-accounts');
+      window.location.href = simulatedAuthorizeRedirect(authUrl);
+      return;
+    }
     window.location.href = authUrl.toString();
   }
 
   async handleCallback() {
-    console.log('Handling callback with search params:', window.location.search);
+    console.log('Handling Spotify auth callback');
     const urlParams = new URLSearchParams(window.location.search);
     const code = urlParams.get('code');
     const state = urlParams.get('state');
@@ -227,8 +519,6 @@ export class SpotifyService {
       console.log('Using code verifier from sessionStorage');
     }
     
-    console.log('Retrieved code verifier:', codeVerifier ? (codeVerifier.substring(0, 5) + '...') : 'null');
-    
     // Check if state matches to prevent CSRF attacks
     if (!state || state !== storedState) {
       console.error('State mismatch in callback');
@@ -244,8 +534,9 @@ export class SpotifyService {
     // Exchange the code for an access token and refresh token
     if (code && codeVerifier) {
       try {
+        await simulatorInstalled;
         const clientId = requireSpotifyClientId();
-        console.log('Exchanging code for token with verifier:', codeVerifier.substring(0, 5) + '...');
+        console.log('Exchanging authorization code for tokens');
         const tokenResponse = await fetch('https://accounts.spotify.com/api/token', {
           method: 'POST',
           headers: {
@@ -265,25 +556,18 @@ export class SpotifyService {
         }
         
         const tokenData = await tokenResponse.json();
+
+        // Park the new session in the unscoped store until we know whose it is,
+        // so signing in another account never overwrites the current one
+        this.useAccount(null);
         this.accessToken = tokenData.access_token;
         this.refreshToken = tokenData.refresh_token;
         
         // Calculate expiration time (in milliseconds)
-        const expirationTime = Date.now() + tokenData.expires_in * 1000;
-        this.tokenExpiration = expirationTime;
-        
-        // Store in localStorage, handling possible nulls safely
-        if (this.accessToken) {
-          localStorage.setItem('spotify_access_token', this.accessToken);
-        } else {
-          localStorage.removeItem('spotify_access_token');
-        }
-        localStorage.setItem('spotify_token_expiration', expirationTime.toString());
-        if (this.refreshToken) {
-          localStorage.setItem('spotify_refresh_token', this.refreshToken);
-        } else {
-          localStorage.removeItem('spotify_refresh_token');
-        }
+        this.tokenExpiration = Date.now() + tokenData.expires_in * 1000;
+        this.recordGrantedScopes(tokenData.scope);
+        await this.saveTokens();
+        await this.adoptSessionAccount();
         
         // Clean up code verifier and state
         localStorage.removeItem('spotify_code_verifier');
@@ -300,14 +584,16 @@ export class SpotifyService {
   }
 
   private clearTokens() {
-    localStorage.removeItem('spotify_access_token');
-    localStorage.removeItem('spotify_token_expiration');
-    localStorage.removeItem('spotify_refresh_token');
+    this.refreshScheduler.cancel();
+    this.tokenStore.clear().catch(error => {
+      console.error('Error clearing Spotify session:', error);
+    });
     localStorage.removeItem('spotify_code_verifier');
     localStorage.removeItem('spotify_auth_state');
     this.accessToken = null;
     this.refreshToken = null;
     this.tokenExpiration = null;
+    this.emitToken();
   }
 
   isTokenExpired(): boolean {
@@ -316,11 +602,35 @@ export class SpotifyService {
     return Date.now() > this.tokenExpiration - 300000;
   }
   
+  // Running against the built-in simulator rather than Spotify
+  isSimulated(): boolean {
+    return SIMULATOR_ENABLED;
+  }
+
   isLoggedIn(): boolean {
     return !!this.accessToken && !this.isTokenExpired();
   }
 
-  async refreshAccessToken(): Promise<boolean> {
+  // Concurrent callers (e.g. several requests hitting a 401 at once) share
+  // one refresh, and the scheduler's lock extends that across tabs, so the
+  // refresh token is only spent once
+  refreshAccessToken(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      const staleToken = this.accessToken;
+      this.refreshPromise = this.refreshScheduler.runExclusive(async () => {
+        // Another tab may have refreshed and broadcast while we waited
+        if (this.accessToken !== staleToken && !this.isTokenExpired()) {
+          return true;
+        }
+        return this.performTokenRefresh();
+      }).finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performTokenRefresh(): Promise<boolean> {
     if (!this.refreshToken) return false;
     
     try {
@@ -347,24 +657,12 @@ export class SpotifyService {
       // Refresh token might be returned, update if so
       if (data.refresh_token) {
         this.refreshToken = data.refresh_token;
-        if (this.refreshToken !== null) {
-          localStorage.setItem('spotify_refresh_token', this.refreshToken);
-        } else {
-          localStorage.removeItem('spotify_refresh_token');
-        }
       }
       
       // Calculate expiration time
-      const expirationTime = Date.now() + data.expires_in * 1000;
-      this.tokenExpiration = expirationTime;
-
-      // Update local storage
-      if (this.accessToken !== null) {
-        localStorage.setItem('spotify_access_token', this.accessToken);
-      } else {
-        localStorage.removeItem('spotify_access_token');
-      }
-      localStorage.setItem('spotify_token_expiration', expirationTime.toString());
+      this.tokenExpiration = Date.now() + data.expires_in * 1000;
+      this.recordGrantedScopes(data.scope);
+      await this.saveTokens();
 
       return true;
     } catch (error) {
@@ -373,7 +671,7 @@ export class SpotifyService {
     }
   }
 
-  async initializePlayer(onStateChange?: (state: Spotify.PlaybackState | null) => void): Promise<boolean> {
+  async initializePlayer(): Promise<boolean> {
     // If already initializing, return the existing promise
     if (this.initializationPromise) {
       return this.initializationPromise;
@@ -418,13 +716,13 @@ export class SpotifyService {
         return;
       }
 
-      this.stateCallback = onStateChange || null;
-
       // Create player with more robust error handling and specify robustness level
       this.player = new window.Spotify.Player({
         name: 'Vinyl Smooth Player',
-        getOAuthToken: (cb) => {
-          if (this.isTokenExpired()) {
+        getOAuthToken: async (cb) => {
+          // The SDK asks again whenever it reconnects, which can be long after
+          // startup, so refresh here rather than ending the session
+          if (this.isTokenExpired() && !(await this.refreshAccessToken())) {
             this.clearTokens();
             resolve(false);
             return;
@@ -451,6 +749,7 @@ export class SpotifyService {
       // Error handling with better logging
       this.player.addListener('initialization_error', ({ message }) => {
         console.error('Spotify initialization error:', message);
+        this.events.emit('error', { kind: 'initialization', message });
         clearTimeout(timeoutId);
         // Check for specific errors
         if (message.includes('404') || message.includes('Not Found')) {
@@ -462,6 +761,7 @@ export class SpotifyService {
 
       this.player.addListener('authentication_error', ({ message }) => {
         console.error('Spotify authentication error:', message);
+        this.events.emit('error', { kind: 'authentication', message });
         clearTimeout(timeoutId);
         this.clearTokens(); // Invalid token, clear it
         this.initializationPromise = null;
@@ -470,7 +770,7 @@ export class SpotifyService {
 
       this.player.addListener('account_error', ({ message }) => {
         console.error('Spotify account error:', message);
-        console.error('Error details:', message);
+        this.events.emit('error', { kind: 'account', message });
         clearTimeout(timeoutId);
         this.initializationPromise = null;
         resolve(false);
@@ -478,9 +778,21 @@ export class SpotifyService {
 
       // Playback status updates
       this.player.addListener('player_state_changed', (state) => {
-        if (this.stateCallback) {
-          this.stateCallback(state);
+        if (state) {
+          // Playing here; the SDK reports everything we need
+          this.remotePoller.stop();
+          this.setRemoteDevice(null);
+        } else {
+          // Playback stopped or moved to another device; follow it from the Web API
+          this.remotePoller.start();
         }
+        this.updatePlaybackState(state, this.deviceId ?? undefined);
+      });
+
+      // The SDK could not play the current track (e.g. it is unavailable)
+      this.player.addListener('playback_error', ({ message }) => {
+        console.error('Spotify playback error:', message);
+        this.events.emit('error', { kind: 'playback', message });
       });
 
       // Ready handler
@@ -492,6 +804,9 @@ export class SpotifyService {
         
         // Reset connection attempts on successful connection
         this.connectionAttempts = 0;
+        this.events.emit('ready', { deviceId: device_id });
+        // Something may already be playing on the user's phone or speakers
+        this.remotePoller.start();
         resolve(true);
       });
 
@@ -499,6 +814,7 @@ export class SpotifyService {
       this.player.addListener('not_ready', ({ device_id }) => {
         console.warn('Spotify player disconnected:', device_id);
         this.deviceId = null;
+        this.events.emit('not_ready', { deviceId: device_id });
       });
 
       // Connect to the player with proper error handling
@@ -528,177 +844,328 @@ export class SpotifyService {
     return this.initializationPromise;
   }
 
-  async getUserSavedTracks(): Promise<any> {
+  async getUserSavedTracks(): Promise<LikedSongsCollection | null> {
     if (!this.accessToken || !this.isLoggedIn()) {
       console.error('Not logged in to Spotify');
       return null;
     }
 
     try {
-      const response = await fetch('https://api.spotify.com/v1/me/tracks?limit=50', {
-        headers: {
-          'Authorization': `Bearer ${this.accessToken}`
-        }
-      });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          console.error('Access token expired or invalid');
-          this.clearTokens();
-          return null;
-        }
-        throw new Error(`Error fetching saved tracks: ${response.status}`);
-      }
-
-      const data = await response.json();
-      
-      // Create a "playlist-like" object for the Liked Songs
-      return {
-        id: 'liked-songs',
-        name: 'Liked Songs',
-        description: 'Your Liked Songs collection',
-        images: [{ url: 'https://misc.scdn.co/liked-songs/liked-songs-640.png' }],
-        tracks: {
-          total: data.total
-        },
-        type: 'liked-songs',
-        uri: 'spotify:user:liked-songs'
-      };
+      // Only the total is needed to build the collection card
+      const page = await this.api.getMySavedTracks({ limit: 1 });
+      return createLikedSongsCollection(page.total);
     } catch (error) {
       console.error('Error fetching user saved tracks:', error);
       return null;
     }
   }
 
-  async getUserPlaylists(): Promise<any[]> {
+  async isTrackSaved(trackId: string, signal?: AbortSignal): Promise<boolean> {
+    const [saved] = await this.api.containsMySavedTracks([trackId], { signal });
+    return saved ?? false;
+  }
+
+  // Like or unlike a track. Listeners hear about it straight away so the UI
+  // can update optimistically; the change is reverted if the request fails.
+  async setTrackSaved(trackId: string, saved: boolean): Promise<void> {
+    this.events.emit('track_saved', { trackId, saved });
+    try {
+      await this.withScopes(['user-library-modify'], () =>
+        saved ? this.api.saveTracks([trackId]) : this.api.removeSavedTracks([trackId])
+      );
+    } catch (error) {
+      console.error('Error updating Liked Songs:', error);
+      this.events.emit('track_saved', { trackId, saved: !saved });
+      throw error;
+    }
+  }
+
+  // Load a playlist for editing. Throws MissingScopeError up front when the
+  // session is known to predate playlist editing.
+  async openPlaylistEditor(playlistId: string, signal?: AbortSignal): Promise<PlaylistEditor> {
+    const authorize = <T,>(request: () => Promise<T>) => this.withScopes(PLAYLIST_MODIFY_SCOPES, request);
+    return authorize(() => PlaylistEditor.open(this.api, authorize, playlistId, signal));
+  }
+
+  async createPlaylist(details: PlaylistDetailsInput & { name: string }): Promise<SpotifyPlaylist> {
+    return this.withScopes(PLAYLIST_MODIFY_SCOPES, async () => {
+      const userId = this.activeAccountId ?? (await this.api.getCurrentUser()).id;
+      return this.api.createPlaylist(userId, details);
+    });
+  }
+
+  // Pages through every playlist in the user's library. Liked Songs is not
+  // part of this collection; fetch it separately with getUserSavedTracks().
+  async *iterateUserPlaylists(signal?: AbortSignal): AsyncGenerator<Paging<SpotifyPlaylist>, void, undefined> {
     if (!this.accessToken || !this.isLoggedIn()) {
       console.error('Not logged in to Spotify');
-      return [];
+      return;
     }
 
-    try {
-      const response = await fetch('https://api.spotify.com/v1/me/playlists?limit=50', {
-        headers: {
-          'Authorization': `Bearer ${this.accessToken}`
-        }
-      });
+    yield* this.api.iterateMyPlaylists(50, signal);
+  }
 
-      if (!response.ok) {
-        if (response.status === 401) {
-          console.error('Access token expired or invalid');
-          this.clearTokens();
-          return [];
-        }
-        throw new Error(`Error fetching playlists: ${response.status}`);
+  // Pages through the albums saved in the user's library, newest first
+  async *iterateSavedAlbums(signal?: AbortSignal): AsyncGenerator<Paging<SpotifySavedAlbum>, void, undefined> {
+    if (!this.accessToken || !this.isLoggedIn()) {
+      console.error('Not logged in to Spotify');
+      return;
+    }
+
+    yield* this.api.iterateMySavedAlbums(50, signal);
+  }
+
+  // The user's last plays, most recent first. Throws MissingScopeError for
+  // sessions authorized before listening history was requested.
+  async getRecentlyPlayed(signal?: AbortSignal): Promise<SpotifyPlayHistory[]> {
+    return this.withScopes(['user-read-recently-played'], () => this.api.getRecentlyPlayed(50, { signal }));
+  }
+
+  // Most-played tracks and artists over a time range. The first page throws
+  // MissingScopeError for sessions without the top-items scope.
+  async *iterateTopTracks(timeRange: TopTimeRange, signal?: AbortSignal): AsyncGenerator<Paging<SpotifyTrack>, void, undefined> {
+    yield* this.iterateWithScopes(['user-top-read'], this.api.iterateTopTracks(timeRange, 20, signal));
+  }
+
+  async *iterateTopArtists(timeRange: TopTimeRange, signal?: AbortSignal): AsyncGenerator<Paging<SpotifyArtist>, void, undefined> {
+    yield* this.iterateWithScopes(['user-top-read'], this.api.iterateTopArtists(timeRange, 20, signal));
+  }
+
+  // Search the Spotify catalog; results are grouped by type
+  async search(query: string, types: SearchType[], limit = 5, signal?: AbortSignal): Promise<SearchResults> {
+    return this.api.search(query, { types, limit, signal });
+  }
+
+  iterateSearch<K extends SearchType>(query: string, type: K, signal?: AbortSignal): AsyncGenerator<Paging<SearchItemMap[K]>, void, undefined> {
+    return this.api.iterateSearch(query, type, 20, signal);
+  }
+
+  async getArtist(artistId: string, signal?: AbortSignal): Promise<SpotifyArtist> {
+    return this.api.getArtist(artistId, { signal });
+  }
+
+  async getArtistTopTracks(artistId: string, signal?: AbortSignal): Promise<SpotifyTrack[]> {
+    return this.api.getArtistTopTracks(artistId, { signal });
+  }
+
+  // Pages through one section of an artist's discography, newest first
+  iterateArtistAlbums(artistId: string, group: ArtistAlbumGroup, signal?: AbortSignal): AsyncGenerator<Paging<SpotifyArtistAlbum>, void, undefined> {
+    return this.api.iterateArtistAlbums(artistId, group, 20, signal);
+  }
+
+  async getRelatedArtists(artistId: string, signal?: AbortSignal): Promise<SpotifyArtist[]> {
+    return this.api.getRelatedArtists(artistId, { signal });
+  }
+
+  // Pages through the podcasts saved in the user's library, newest first
+  async *iterateSavedShows(signal?: AbortSignal): AsyncGenerator<Paging<SpotifySavedShow>, void, undefined> {
+    if (!this.accessToken || !this.isLoggedIn()) {
+      console.error('Not logged in to Spotify');
+      return;
+    }
+
+    yield* this.api.iterateMySavedShows(50, signal);
+  }
+
+  // A show's episodes, newest first. Resume points Spotify reports along
+  // with them are remembered here too.
+  async *iterateShowEpisodes(showId: string, signal?: AbortSignal): AsyncGenerator<Paging<SpotifyEpisode>, void, undefined> {
+    for await (const page of this.api.iterateShowEpisodes(showId, 20, signal)) {
+      page.items.forEach(episode => this.rememberResumePoint(episode));
+      yield page;
+    }
+  }
+
+  async getEpisode(episodeId: string, signal?: AbortSignal): Promise<SpotifyEpisode> {
+    return this.api.getEpisode(episodeId, { signal });
+  }
+
+  // Where to pick an episode up. Spotify's own resume point is synced across
+  // the user's devices, so it wins; the one kept here covers sessions that
+  // predate the scope it needs. Null to start from the beginning.
+  getResumePosition(episode: SpotifyEpisode): number | null {
+    const resumePoint = episode.resume_point;
+    if (resumePoint) {
+      return resumePoint.fully_played || resumePoint.resume_position_ms === 0
+        ? null
+        : resumePoint.resume_position_ms;
+    }
+    return this.resumePoints.get(episode.uri);
+  }
+
+  private rememberResumePoint(episode: SpotifyEpisode): void {
+    const position = this.getResumePosition(episode);
+    if (position === null) {
+      this.resumePoints.clear(episode.uri);
+    } else {
+      this.resumePoints.save(episode.uri, position);
+    }
+  }
+
+  // Play any track, episode, album, playlist or artist by URI. A track with a
+  // `contextUri` plays within that album or playlist, so playback carries on
+  // past it like a record would. Works before this browser's player is up
+  // (e.g. on a page opened directly) by handing playback to a Connect device.
+  // Episodes start from their resume point unless `positionMs` says otherwise.
+  async playUri(uri: string, contextUri?: string, positionMs?: number): Promise<void> {
+    try {
+      this.likedSongsQueue = null;
+      this.setCuedRecord(null);
+      const deviceId = await this.resolvePlaybackDeviceId();
+      if (positionMs === undefined && uri.startsWith('spotify:episode:')) {
+        positionMs = this.resumePoints.get(uri) ?? undefined;
       }
 
-      const data = await response.json();
-      
-      // Get the Liked Songs collection
-      const likedSongs = await this.getUserSavedTracks();
-      
-      // Add Liked Songs at the beginning of the playlists array if available
-      return likedSongs 
-        ? [likedSongs, ...data.items] 
-        : data.items;
+      if (contextUri) {
+        await this.api.startPlayback({ deviceId, contextUri, offset: { uri }, positionMs });
+      } else if (uri.startsWith('spotify:track:') || uri.startsWith('spotify:episode:')) {
+        await this.api.startPlayback({ deviceId, uris: [uri], positionMs });
+      } else {
+        await this.api.startPlayback({ deviceId, contextUri: uri });
+      }
+      this.pollRemoteAfterCommand();
     } catch (error) {
-      console.error('Error fetching user playlists:', error);
-      return [];
+      console.error('Error playing item:', error);
+      throw error;
     }
   }
 
-  async playPlaylist(playlistId: string) {
-    if (!this.deviceId) {
+  // Put a record on the turntable without starting it
+  cue(record: CuedRecord): void {
+    this.setCuedRecord(record);
+  }
+
+  getCuedRecord(): CuedRecord | null {
+    return this.cuedRecord;
+  }
+
+  clearCue(): void {
+    this.setCuedRecord(null);
+  }
+
+  private setCuedRecord(record: CuedRecord | null): void {
+    if (record === this.cuedRecord) return;
+    this.cuedRecord = record;
+    this.events.emit('cued', record);
+  }
+
+  async playPlaylist(playlistId: string, options: { shuffle?: boolean } = {}) {
+    if (!this.hasPlaybackDevice() && !this.remoteControlOnly) {
       console.error('No active device');
       return;
     }
 
     try {
+      const deviceId = await this.resolvePlaybackDeviceId();
+      this.setCuedRecord(null);
+
+      // Any other playlist takes over from the Liked Songs queue
+      this.likedSongsQueue = null;
+
       // Special handling for liked songs
-      if (playlistId === 'liked-songs') {
+      if (playlistId === LIKED_SONGS_ID) {
         console.log('Playing liked songs collection');
         
         // Skip the context_uri approach since it's failing with 400 errors
-        // and go directly to playing track URIs
-        console.log('Using track-by-track approach for liked songs...');
-        // Get the first 50 liked tracks
-        const tracksResponse = await fetch('https://api.spotify.com/v1/me/tracks?limit=50', {
-          headers: {
-            'Authorization': `Bearer ${this.accessToken}`
-          }
-        });
-        
-        if (tracksResponse.ok) {
-          const tracksData = await tracksResponse.json();
-          if (tracksData.items && tracksData.items.length > 0) {
-            // Extract track URIs
-            const trackUris = tracksData.items.map((item: any) => item.track.uri);
-            
-            // Play these specific tracks
-            const playResponse = await fetch(`https://api.spotify.com/v1/me/player/play?device_id=${this.deviceId}`, {
-              method: 'PUT',
-              headers: {
-                'Authorization': `Bearer ${this.accessToken}`,
-                'Content-Type': 'application/json'
-              },
-              body: JSON.stringify({
-                uris: trackUris
-              })
-            });
-            
-            if (!playResponse.ok) {
-              const errorText = await playResponse.text();
-              const sanitizedError = errorText.substring(0, 200); // Limit length
-              console.error('Error playing liked songs:', {
-                status: playResponse.status,
-                error: sanitizedError
-              });
-              throw new Error(`Failed to play liked songs: HTTP ${playResponse.status}`);
-            }
-          } else {
-            console.log('No liked songs found');
-          }
-        } else {
-          const errorText = await tracksResponse.text();
-          const sanitizedError = errorText.substring(0, 200); // Limit length
-          console.error('Error fetching liked songs:', {
-            status: tracksResponse.status,
-            error: sanitizedError
-          });
-          throw new Error(`Failed to fetch liked songs: HTTP ${tracksResponse.status}`);
+        // and play the collection through a paged queue of track URIs
+        const queue = await LikedSongsQueue.create(this.api, options.shuffle ?? false);
+        if (queue.isEmpty) {
+          console.log('No liked songs found');
+          return;
         }
+        await queue.start(deviceId);
+        this.likedSongsQueue = queue;
+        this.pollRemoteAfterCommand();
         return;
       }
 
       // Regular playlist
       console.log(`Playing playlist: ${playlistId}`);
-      const response = await fetch(`https://api.spotify.com/v1/me/player/play?device_id=${this.deviceId}`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${this.accessToken}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          context_uri: `spotify:playlist:${playlistId}`
-        })
+      await this.api.startPlayback({
+        deviceId,
+        contextUri: `spotify:playlist:${playlistId}`
       });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        const sanitizedError = errorText.substring(0, 200); // Limit length
+      this.pollRemoteAfterCommand();
+    } catch (error) {
+      if (error instanceof SpotifyApiError) {
         console.error('Error playing playlist:', {
-          status: response.status,
-          error: sanitizedError
+          kind: error.kind,
+          status: error.status,
+          reason: error.reason,
+          error: error.body
         });
-        throw new Error(`Failed to play playlist: HTTP ${response.status}`);
+      } else {
+        console.error('Error playing playlist:', error);
       }
-    } catch (error) {
-      console.error('Error playing playlist:', error);
       throw error; // Re-throw to allow handling in the component
     }
   }
 
+  // Run without a player in this browser, for when the Web Playback SDK is
+  // blocked or fails to load. Playback is driven on the user's other Spotify
+  // Connect devices, and the turntable follows their polled state.
+  startRemoteControl(): void {
+    console.warn('Web Playback SDK unavailable, controlling other Spotify devices instead');
+    this.remoteControlOnly = true;
+    this.remotePoller.start();
+  }
+
+  isRemoteControlOnly(): boolean {
+    return this.remoteControlOnly;
+  }
+
+  // The Connect devices the user could play on, including this browser
+  async getDevices(): Promise<SpotifyDevice[]> {
+    return this.api.getDevices();
+  }
+
+  // ID of this browser's own player once it is ready
+  getDeviceId(): string | null {
+    return this.deviceId;
+  }
+
+  getRemoteDevice(): SpotifyDevice | null {
+    return this.remoteDevice;
+  }
+
+  // Move playback to another device (or back to this browser), keeping the
+  // position. The turntable keeps showing what plays while audio is elsewhere.
+  async transferPlayback(deviceId: string): Promise<void> {
+    try {
+      await this.api.transferPlayback(deviceId, true);
+    } catch (error) {
+      console.error('Error transferring playback:', error);
+      throw error;
+    }
+
+    if (deviceId !== this.deviceId) {
+      this.remotePoller.start();
+      this.pollRemoteAfterCommand();
+    }
+  }
+
   async togglePlayback(): Promise<void> {
+    // A cued record starts when play is pressed
+    if (this.cuedRecord) {
+      await this.playUri(this.cuedRecord.uri, this.cuedRecord.contextUri, this.cuedRecord.positionMs);
+      return;
+    }
+
+    if (this.remoteDevice) {
+      try {
+        const deviceId = this.targetDeviceId();
+        if (this.playbackState?.paused) {
+          await this.api.startPlayback({ deviceId });
+        } else {
+          await this.api.pausePlayback(deviceId);
+        }
+        this.pollRemoteAfterCommand();
+      } catch (err) {
+        console.error('Error toggling remote playback:', err);
+      }
+      return;
+    }
+
     if (!this.player) return;
     
     try {
@@ -713,7 +1180,34 @@ export class SpotifyService {
     }
   }
 
+  // Unlike togglePlayback, never starts anything, e.g. when another music
+  // source takes over the turntable
+  async pause(): Promise<void> {
+    if (!this.playbackState || this.playbackState.paused) return;
+
+    try {
+      if (this.remoteDevice) {
+        await this.api.pausePlayback(this.targetDeviceId());
+        this.pollRemoteAfterCommand();
+      } else {
+        await this.player?.pause();
+      }
+    } catch (err) {
+      console.error('Error pausing playback:', err);
+    }
+  }
+
   async nextTrack(): Promise<void> {
+    if (this.remoteDevice) {
+      try {
+        await this.api.skipToNext(this.targetDeviceId());
+        this.pollRemoteAfterCommand();
+      } catch (err) {
+        console.error('Error skipping to next track:', err);
+      }
+      return;
+    }
+
     if (!this.player) return;
     
     try {
@@ -724,6 +1218,16 @@ export class SpotifyService {
   }
 
   async previousTrack(): Promise<void> {
+    if (this.remoteDevice) {
+      try {
+        await this.api.skipToPrevious(this.targetDeviceId());
+        this.pollRemoteAfterCommand();
+      } catch (err) {
+        console.error('Error going to previous track:', err);
+      }
+      return;
+    }
+
     if (!this.player) return;
     
     try {
@@ -733,6 +1237,92 @@ export class SpotifyService {
     }
   }
 
+  // Jump to a position in the current track. The new position arrives
+  // through a 'state' event once the seek has happened.
+  async seek(positionMs: number): Promise<void> {
+    if (this.remoteDevice) {
+      try {
+        await this.api.seekTo(Math.max(0, positionMs), this.targetDeviceId());
+        this.pollRemoteAfterCommand();
+      } catch (err) {
+        console.error('Error seeking:', err);
+        throw err;
+      }
+      return;
+    }
+
+    if (!this.player) return;
+
+    try {
+      await this.player.seek(Math.max(0, Math.round(positionMs)));
+    } catch (err) {
+      console.error('Error seeking:', err);
+      throw err;
+    }
+  }
+
+  // What is playing and what comes next, on whichever device is active
+  async getQueue(signal?: AbortSignal): Promise<SpotifyQueue> {
+    return this.api.getQueue({ signal });
+  }
+
+  async addToQueue(uri: string): Promise<void> {
+    if (!this.hasPlaybackDevice()) {
+      throw new NoPlaybackDeviceError();
+    }
+
+    try {
+      await this.api.addToQueue(uri, this.targetDeviceId());
+      this.events.emit('queued', { uri });
+    } catch (error) {
+      console.error('Error adding to queue:', error);
+      throw error;
+    }
+  }
+
+  // Shuffle as the listener sees it. While Liked Songs plays through our own
+  // queue, Spotify's shuffle stays off and the queue does the shuffling.
+  isShuffling(state: Spotify.PlaybackState | null = this.playbackState): boolean {
+    if (!state) return false;
+    if (this.likedSongsQueue?.owns(state)) return this.likedSongsQueue.shuffle;
+    return state.shuffle;
+  }
+
+  async setShuffle(enabled: boolean): Promise<void> {
+    if (!this.hasPlaybackDevice()) {
+      console.error('No active device');
+      return;
+    }
+
+    try {
+      const state = this.playbackState;
+      if (state && this.likedSongsQueue?.owns(state)) {
+        await this.likedSongsQueue.setShuffle(enabled, state, this.targetDeviceId());
+        return;
+      }
+      await this.api.setShuffle(enabled, this.targetDeviceId());
+      this.pollRemoteAfterCommand();
+    } catch (error) {
+      console.error('Error setting shuffle:', error);
+      throw error;
+    }
+  }
+
+  async setRepeatMode(mode: RepeatState): Promise<void> {
+    if (!this.hasPlaybackDevice()) {
+      console.error('No active device');
+      return;
+    }
+
+    try {
+      await this.api.setRepeat(mode, this.targetDeviceId());
+      this.pollRemoteAfterCommand();
+    } catch (error) {
+      console.error('Error setting repeat mode:', error);
+      throw error;
+    }
+  }
+
   async setVolume(volumePercent: number): Promise<void> {
     if (!this.player) return;
     
@@ -746,14 +1336,81 @@ export class SpotifyService {
   }
 
 
+  private updatePlaybackState(state: Spotify.PlaybackState | null, deviceId: string | undefined): void {
+    if (state && this.likedSongsQueue) {
+      this.likedSongsQueue.handleStateChange(state, deviceId);
+    }
+    this.resumePoints.observe(state);
+    this.playbackState = state;
+    this.events.emit('state', state);
+  }
+
+  private applyRemotePlayback(playback: SpotifyPlayback | null): void {
+    // Playing in this browser after all; the SDK reports that itself
+    if (playback && playback.device.id === this.deviceId) {
+      this.setRemoteDevice(null);
+      return;
+    }
+
+    this.setRemoteDevice(playback?.device ?? null);
+    const state = playback ? toPlaybackState(playback) : null;
+    if (state || this.playbackState) {
+      this.updatePlaybackState(state, playback?.device.id ?? undefined);
+    }
+  }
+
+  private setRemoteDevice(device: SpotifyDevice | null): void {
+    if (device?.id === this.remoteDevice?.id && device?.name === this.remoteDevice?.name) return;
+    this.remoteDevice = device;
+    this.events.emit('remote_device', device);
+  }
+
+  private hasPlaybackDevice(): boolean {
+    return this.remoteDevice !== null || this.deviceId !== null;
+  }
+
+  // Commands go to the Connect device that is playing, or to this browser's
+  // player. Undefined lets Spotify pick the active device.
+  private targetDeviceId(): string | undefined {
+    if (this.remoteDevice) {
+      return this.remoteDevice.id ?? undefined;
+    }
+    return this.deviceId ?? undefined;
+  }
+
+  // Where to start new playback: the device already playing, this browser's
+  // player or, when neither is available, the device the user last used (or
+  // any that is online)
+  private async resolvePlaybackDeviceId(): Promise<string | undefined> {
+    if (this.hasPlaybackDevice()) {
+      return this.targetDeviceId();
+    }
+
+    const devices = await this.api.getDevices();
+    const device = devices.find(candidate => candidate.id && candidate.is_active)
+      ?? devices.find(candidate => candidate.id && !candidate.is_restricted);
+    if (!device?.id) {
+      throw new NoPlaybackDeviceError();
+    }
+    // Follow what that device plays, since no local player will report it
+    this.remotePoller.start();
+    return device.id;
+  }
+
+  // Remote devices take a moment to act on a command, so check back shortly
+  // rather than waiting for the next regular poll
+  private pollRemoteAfterCommand(): void {
+    if (this.remotePoller.isRunning) {
+      setTimeout(() => this.remotePoller.pollNow(), 750);
+    }
+  }
+
   // Add the logout method to the SpotifyService class
-  logout(): void {
-    console.log('Logging out of Spotify');
-    
-    // Clear all tokens and state
-    this.clearTokens();
-    
-    // Clear player state
+  private disconnectPlayer(): void {
+    this.remotePoller.stop();
+    this.setRemoteDevice(null);
+    this.remoteControlOnly = false;
+
     if (this.player) {
       try {
         this.player.disconnect();
@@ -764,8 +1421,32 @@ export class SpotifyService {
     }
     
     this.deviceId = null;
+    this.likedSongsQueue = null;
     this.initializationPromise = null;
     this.connectionAttempts = 0;
+
+    if (this.playbackState) {
+      this.playbackState = null;
+      this.events.emit('state', null);
+    }
+  }
+
+  // Signs out the active account. Other signed-in accounts are kept, and the
+  // next one becomes active so a reload picks it up.
+  logout(): void {
+    console.log('Logging out of Spotify');
+    
+    // Clear all tokens and state
+    this.clearTokens();
+    
+    // Clear player state
+    this.disconnectPlayer();
+
+    if (this.activeAccountId) {
+      this.tokenStores.delete(this.activeAccountId);
+      this.accounts.remove(this.activeAccountId);
+    }
+    this.useAccount(this.accounts.list()[0]?.id ?? null);
     
     // Set flag to force show_dialog on next login
     localStorage.setItem('spotify_force_login', 'true');
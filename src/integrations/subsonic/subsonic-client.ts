@@ -0,0 +1,161 @@
+import { z } from 'zod';
+import { md5 } from '../../lib/md5';
+import {
+  albumList2Schema,
+  albumSchema,
+  playlistSchema,
+  playlistsSchema,
+  subsonicEnvelopeSchema,
+  type SubsonicAlbum,
+  type SubsonicPlaylist,
+  type SubsonicSong
+} from './subsonic-models';
+
+// 1.13.0 introduced token auth; every current server speaks at least that
+const API_VERSION = '1.13.0';
+const CLIENT_NAME = 'vinyl-viewer';
+
+// Error codes the Subsonic API defines for failed responses
+export const SUBSONIC_WRONG_CREDENTIALS = 40;
+export const SUBSONIC_TOKEN_AUTH_UNSUPPORTED = 41;
+
+// What a signed-in client needs. The password itself is never kept: requests
+// carry md5(password + salt) with the salt, as Subsonic's token auth expects.
+// The pair still signs any request, so treat it as a secret.
+export interface SubsonicCredentials {
+  serverUrl: string;
+  username: string;
+  token: string;
+  salt: string;
+}
+
+// A failed request. `code` is the Subsonic error code, or null when the
+// server answered with an HTTP error instead of a Subsonic response.
+export class SubsonicApiError extends Error {
+  constructor(
+    message: string,
+    public readonly code: number | null,
+    public readonly endpoint: string
+  ) {
+    super(message);
+    this.name = 'SubsonicApiError';
+  }
+}
+
+// Error thrown when a response does not match the expected schema
+export class SubsonicValidationError extends Error {
+  constructor(
+    public readonly endpoint: string,
+    public readonly issues: z.ZodIssue[]
+  ) {
+    super(`Unexpected response shape from ${endpoint}: ${issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join('; ')}`);
+    this.name = 'SubsonicValidationError';
+  }
+}
+
+// "music.example.com/" → "https://music.example.com"
+export function normalizeServerUrl(serverUrl: string): string {
+  const trimmed = serverUrl.trim().replace(/\/+$/, '');
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+export function createSubsonicCredentials(serverUrl: string, username: string, password: string): SubsonicCredentials {
+  const salt = Array.from(crypto.getRandomValues(new Uint8Array(8)), byte => byte.toString(16).padStart(2, '0')).join('');
+  return {
+    serverUrl: normalizeServerUrl(serverUrl),
+    username,
+    token: md5(password + salt),
+    salt
+  };
+}
+
+export interface AlbumListOptions {
+  offset?: number;
+  size?: number;
+  signal?: AbortSignal;
+}
+
+// Thin typed wrapper around a Subsonic-compatible server (Subsonic, Navidrome,
+// Airsonic, Gonic, ...). Every method returns validated models from
+// subsonic-models.ts. Stream and cover art URLs are signed, so they can be
+// handed straight to <audio> and <img>.
+export class SubsonicClient {
+  constructor(readonly credentials: SubsonicCredentials) {}
+
+  private url(endpoint: string, params: Record<string, string> = {}): string {
+    const { serverUrl, username, token, salt } = this.credentials;
+    const query = new URLSearchParams({ u: username, t: token, s: salt, v: API_VERSION, c: CLIENT_NAME, f: 'json', ...params });
+    return `${serverUrl}/rest/${endpoint}.view?${query}`;
+  }
+
+  private async get<T extends z.ZodTypeAny>(
+    endpoint: string,
+    schema: T,
+    params: Record<string, string> = {},
+    signal?: AbortSignal
+  ): Promise<z.infer<T>> {
+    const response = await fetch(this.url(endpoint, params), { signal });
+    if (!response.ok) {
+      throw new SubsonicApiError(`${endpoint} failed with HTTP ${response.status}`, null, endpoint);
+    }
+
+    const envelope = subsonicEnvelopeSchema.safeParse(await response.json());
+    if (!envelope.success) {
+      throw new SubsonicValidationError(endpoint, envelope.error.issues);
+    }
+    const body = envelope.data['subsonic-response'];
+    if (body.status === 'failed') {
+      throw new SubsonicApiError(body.error?.message ?? `${endpoint} failed`, body.error?.code ?? null, endpoint);
+    }
+
+    const result = schema.safeParse(body);
+    if (!result.success) {
+      throw new SubsonicValidationError(endpoint, result.error.issues);
+    }
+    return result.data;
+  }
+
+  // Resolves when the server accepts the credentials
+  async ping(signal?: AbortSignal): Promise<void> {
+    await this.get('ping', z.object({}), {}, signal);
+  }
+
+  // Albums sorted by artist, one page at a time
+  async getAlbumList(options: AlbumListOptions = {}): Promise<SubsonicAlbum[]> {
+    const { offset = 0, size = 50, signal } = options;
+    const params = { type: 'alphabeticalByArtist', offset: String(offset), size: String(size) };
+    const data = await this.get('getAlbumList2', albumList2Schema, params, signal);
+    return data.albumList2.album;
+  }
+
+  async getAlbumSongs(albumId: string, signal?: AbortSignal): Promise<SubsonicSong[]> {
+    const data = await this.get('getAlbum', albumSchema, { id: albumId }, signal);
+    return data.album.song;
+  }
+
+  async getPlaylists(signal?: AbortSignal): Promise<SubsonicPlaylist[]> {
+    const data = await this.get('getPlaylists', playlistsSchema, {}, signal);
+    return data.playlists.playlist;
+  }
+
+  async getPlaylistSongs(playlistId: string, signal?: AbortSignal): Promise<SubsonicSong[]> {
+    const data = await this.get('getPlaylist', playlistSchema, { id: playlistId }, signal);
+    return data.playlist.entry;
+  }
+
+  // `submission: false` only marks the song as now playing; true counts the
+  // play, with `time` being when it started
+  async scrobble(songId: string, submission: boolean, time?: number): Promise<void> {
+    const params: Record<string, string> = { id: songId, submission: String(submission) };
+    if (time !== undefined) params.time = String(time);
+    await this.get('scrobble', z.object({}), params);
+  }
+
+  streamUrl(songId: string): string {
+    return this.url('stream', { id: songId });
+  }
+
+  coverArtUrl(coverArtId: string, size: number): string {
+    return this.url('getCoverArt', { id: coverArtId, size: String(size) });
+  }
+}
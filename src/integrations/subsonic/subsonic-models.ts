@@ -0,0 +1,70 @@
+import { z } from 'zod';
+
+// Schemas for the subset of the Subsonic API we consume, as returned with
+// f=json. Servers leave out empty lists and most optional fields, and older
+// ones send IDs as numbers.
+// Reference: https://www.subsonic.org/pages/api.jsp and https://opensubsonic.netlify.app
+
+const idSchema = z.coerce.string();
+
+export const subsonicErrorSchema = z.object({
+  code: z.number(),
+  message: z.string().optional()
+});
+
+// Every response is wrapped in this envelope, failures included
+export const subsonicEnvelopeSchema = z.object({
+  'subsonic-response': z.object({
+    status: z.enum(['ok', 'failed']),
+    version: z.string(),
+    error: subsonicErrorSchema.optional()
+  }).passthrough()
+});
+
+export const subsonicSongSchema = z.object({
+  id: idSchema,
+  title: z.string(),
+  artist: z.string().optional(),
+  album: z.string().optional(),
+  // Seconds
+  duration: z.number().optional(),
+  coverArt: idSchema.optional()
+});
+
+export const subsonicAlbumSchema = z.object({
+  id: idSchema,
+  name: z.string(),
+  artist: z.string().optional(),
+  artistId: idSchema.optional(),
+  coverArt: idSchema.optional(),
+  songCount: z.number(),
+  year: z.number().optional()
+});
+
+export const subsonicPlaylistSchema = z.object({
+  id: idSchema,
+  name: z.string(),
+  owner: z.string().optional(),
+  songCount: z.number(),
+  coverArt: idSchema.optional()
+});
+
+export const albumList2Schema = z.object({
+  albumList2: z.object({ album: z.array(subsonicAlbumSchema).default([]) })
+});
+
+export const albumSchema = z.object({
+  album: subsonicAlbumSchema.extend({ song: z.array(subsonicSongSchema).default([]) })
+});
+
+export const playlistsSchema = z.object({
+  playlists: z.object({ playlist: z.array(subsonicPlaylistSchema).default([]) })
+});
+
+export const playlistSchema = z.object({
+  playlist: subsonicPlaylistSchema.extend({ entry: z.array(subsonicSongSchema).default([]) })
+});
+
+export type SubsonicSong = z.infer<typeof subsonicSongSchema>;
+export type SubsonicAlbum = z.infer<typeof subsonicAlbumSchema>;
+export type SubsonicPlaylist = z.infer<typeof subsonicPlaylistSchema>;
@@ -0,0 +1,249 @@
+import { z } from 'zod';
+import type { RepeatState } from '../spotify-api';
+import type { Paging } from '../spotify-models';
+import type { MusicSource, MusicSourceEvents, SourceCollection } from '../music-source';
+import { AudioQueuePlayer, type AudioTrack } from '../audio-queue-player';
+import { TypedEmitter } from '../../lib/typed-emitter';
+import {
+  createSubsonicCredentials,
+  SubsonicClient,
+  type SubsonicCredentials
+} from './subsonic-client';
+import type { SubsonicAlbum, SubsonicPlaylist, SubsonicSong } from './subsonic-models';
+
+// Prefills the sign-in form, e.g. with a local Navidrome or stub server
+export const DEFAULT_SUBSONIC_SERVER_URL: string = import.meta.env.VITE_SUBSONIC_SERVER_URL ?? '';
+
+const CREDENTIALS_KEY = 'subsonic_credentials';
+const ALBUM_PAGE_SIZE = 50;
+const COVER_SIZE = 300;
+const SONG_URI_PREFIX = 'subsonic:song:';
+
+// What connect() stores; anything else under the key is dropped
+const storedCredentialsSchema = z.object({
+  serverUrl: z.string().min(1),
+  username: z.string().min(1),
+  token: z.string().min(1),
+  salt: z.string().min(1)
+});
+
+export interface SubsonicLogin {
+  serverUrl: string;
+  username: string;
+  password: string;
+}
+
+function albumCollection(client: SubsonicClient, album: SubsonicAlbum): SourceCollection {
+  const artist = album.artist ?? 'Unknown artist';
+  return {
+    id: `album:${album.id}`,
+    name: album.name,
+    subtitle: album.year ? `${artist} · ${album.year}` : artist,
+    imageUrl: album.coverArt ? client.coverArtUrl(album.coverArt, COVER_SIZE) : null,
+    trackCount: album.songCount
+  };
+}
+
+function playlistCollection(client: SubsonicClient, playlist: SubsonicPlaylist): SourceCollection {
+  return {
+    id: `playlist:${playlist.id}`,
+    name: playlist.name,
+    subtitle: playlist.owner ? `Playlist by ${playlist.owner}` : 'Playlist',
+    imageUrl: playlist.coverArt ? client.coverArtUrl(playlist.coverArt, COVER_SIZE) : null,
+    trackCount: playlist.songCount
+  };
+}
+
+// The album list has no total, so `total` counts what has been listed so far
+function collectionPage(items: SourceCollection[], offset: number, hasMore: boolean): Paging<SourceCollection> {
+  return {
+    href: '',
+    items,
+    limit: items.length,
+    next: hasMore ? 'more' : null,
+    offset,
+    previous: null,
+    total: offset + items.length
+  };
+}
+
+// Plays from a Subsonic-compatible server such as Navidrome. The collection
+// is browsed by record: playlists, then albums sorted by artist, with no
+// separate artist view. Songs stream through an audio element, and plays are
+// scrobbled back to the server so its play counts and "recently played" stay
+// right.
+class SubsonicSource implements MusicSource {
+  readonly id = 'subsonic';
+  readonly name = 'Subsonic';
+  private events = new TypedEmitter<MusicSourceEvents>();
+  private player = new AudioQueuePlayer();
+  private client: SubsonicClient | null;
+  // Unix time in ms when the current song started, sent with its scrobble
+  private songStartedAt = 0;
+
+  constructor(private readonly storage: Storage = localStorage) {
+    const credentials = this.loadCredentials();
+    this.client = credentials ? new SubsonicClient(credentials) : null;
+
+    this.player.on('state', state => this.events.emit('state', state));
+    this.player.on('track_started', track => {
+      this.songStartedAt = Date.now();
+      this.scrobble(track, false);
+    });
+    this.player.on('track_ended', track => this.scrobble(track, true, this.songStartedAt));
+  }
+
+  on<K extends keyof MusicSourceEvents>(event: K, listener: (payload: MusicSourceEvents[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  // The signed-in server and user, or null
+  getServer(): { serverUrl: string; username: string } | null {
+    if (!this.client) return null;
+    const { serverUrl, username } = this.client.credentials;
+    return { serverUrl, username };
+  }
+
+  isConnected(): boolean {
+    return this.client !== null;
+  }
+
+  // Checks the login against the server before keeping it. Rejects with a
+  // SubsonicApiError when the server turns it down.
+  async connect(login?: SubsonicLogin): Promise<void> {
+    if (!login) throw new Error('A server address, user name and password are needed to sign in');
+
+    const client = new SubsonicClient(createSubsonicCredentials(login.serverUrl, login.username, login.password));
+    await client.ping();
+
+    this.player.stop();
+    this.client = client;
+    this.storage.setItem(CREDENTIALS_KEY, JSON.stringify(client.credentials));
+    this.events.emit('library', undefined);
+  }
+
+  async disconnect(): Promise<void> {
+    this.player.stop();
+    this.client = null;
+    this.storage.removeItem(CREDENTIALS_KEY);
+    this.events.emit('library', undefined);
+  }
+
+  // Playlists first, then every album sorted by artist
+  async *iterateCollections(signal?: AbortSignal): AsyncGenerator<Paging<SourceCollection>, void, undefined> {
+    const client = this.requireClient();
+    const playlists = await client.getPlaylists(signal);
+    let albums = await client.getAlbumList({ size: ALBUM_PAGE_SIZE, signal });
+    yield collectionPage(
+      [
+        ...playlists.map(playlist => playlistCollection(client, playlist)),
+        ...albums.map(album => albumCollection(client, album))
+      ],
+      0,
+      albums.length === ALBUM_PAGE_SIZE
+    );
+
+    let offset = albums.length;
+    while (albums.length === ALBUM_PAGE_SIZE) {
+      albums = await client.getAlbumList({ offset, size: ALBUM_PAGE_SIZE, signal });
+      yield collectionPage(
+        albums.map(album => albumCollection(client, album)),
+        playlists.length + offset,
+        albums.length === ALBUM_PAGE_SIZE
+      );
+      offset += albums.length;
+    }
+  }
+
+  async playCollection(collectionId: string): Promise<void> {
+    const client = this.requireClient();
+    const [type, id] = collectionId.split(/:(.*)/);
+    const songs = type === 'playlist' ? await client.getPlaylistSongs(id) : await client.getAlbumSongs(id);
+    if (songs.length === 0) throw new Error('There is nothing to play on that record');
+
+    await this.player.play(`subsonic:${collectionId}`, songs.map(song => this.toTrack(client, song)));
+  }
+
+  getPlaybackState(): Spotify.PlaybackState | null {
+    return this.player.getState();
+  }
+
+  togglePlayback(): Promise<void> {
+    return this.player.togglePlayback();
+  }
+
+  pause(): Promise<void> {
+    return this.player.pause();
+  }
+
+  seek(positionMs: number): Promise<void> {
+    return this.player.seek(positionMs);
+  }
+
+  nextTrack(): Promise<void> {
+    return this.player.nextTrack();
+  }
+
+  previousTrack(): Promise<void> {
+    return this.player.previousTrack();
+  }
+
+  isShuffling(state: Spotify.PlaybackState | null): boolean {
+    return state?.shuffle ?? false;
+  }
+
+  async setShuffle(enabled: boolean): Promise<void> {
+    this.player.setShuffle(enabled);
+  }
+
+  async setRepeatMode(mode: RepeatState): Promise<void> {
+    this.player.setRepeatMode(mode);
+  }
+
+  private requireClient(): SubsonicClient {
+    if (!this.client) throw new Error('Not signed in to a Subsonic server');
+    return this.client;
+  }
+
+  private toTrack(client: SubsonicClient, song: SubsonicSong): AudioTrack {
+    return {
+      uri: `${SONG_URI_PREFIX}${song.id}`,
+      name: song.title,
+      artist: song.artist ?? 'Unknown artist',
+      durationMs: (song.duration ?? 0) * 1000,
+      resolveSrc: async () => client.streamUrl(song.id)
+    };
+  }
+
+  // A failed scrobble only costs a play count, so it never interrupts playback
+  private scrobble(track: AudioTrack, submission: boolean, time?: number): void {
+    if (!this.client || !track.uri.startsWith(SONG_URI_PREFIX)) return;
+    const songId = track.uri.slice(SONG_URI_PREFIX.length);
+    this.client.scrobble(songId, submission, time).catch(error => {
+      console.warn(`Could not scrobble "${track.name}":`, error);
+    });
+  }
+
+  private loadCredentials(): SubsonicCredentials | null {
+    let stored: string | null;
+    try {
+      stored = this.storage.getItem(CREDENTIALS_KEY);
+    } catch (error) {
+      console.error('Error reading stored Subsonic credentials:', error);
+      return null;
+    }
+    if (!stored) return null;
+
+    try {
+      const result = storedCredentialsSchema.safeParse(JSON.parse(stored));
+      if (result.success) return result.data;
+    } catch {
+      // Not JSON; dropped below like any other unusable entry
+    }
+    console.warn('Dropping stored Subsonic credentials that are not in the expected shape');
+    this.storage.removeItem(CREDENTIALS_KEY);
+    return null;
+  }
+}
+
+export const subsonicSource = new SubsonicSource();
@@ -0,0 +1,102 @@
+import type { StoredTokens } from './token-store';
+
+// Refresh this long before the token expires. SpotifyService already treats a
+// token as expired 5 minutes early, so this keeps a little headroom past that.
+const REFRESH_LEAD_MS = 6 * 60 * 1000;
+const LOCK_NAME = 'spotify-token-refresh';
+const CHANNEL_NAME = 'spotify-tokens';
+
+interface TokensMessage {
+  type: 'tokens';
+  // Account the tokens belong to; tabs may have different accounts active
+  scope: string;
+  tokens: StoredTokens;
+}
+
+interface TokenRefreshSchedulerOptions {
+  // Performs the actual refresh; resolves false if it failed
+  refresh: () => Promise<boolean>;
+  // Called when another tab has refreshed and broadcast new tokens
+  onRemoteTokens: (tokens: StoredTokens) => void;
+}
+
+// Keeps the access token fresh for long listening sessions. A timer fires a
+// few minutes before expiry, and every tab coordinates through a Web Lock so
+// only one of them spends the refresh token (Spotify rotates it on each use).
+// The winner broadcasts the new tokens to the other tabs over a
+// BroadcastChannel, which then adopt them instead of refreshing themselves.
+export class TokenRefreshScheduler {
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
+  private expiresAt: number | null = null;
+  private channel: BroadcastChannel | null = null;
+  private scope = 'default';
+
+  constructor(private readonly options: TokenRefreshSchedulerOptions) {
+    if ('BroadcastChannel' in window) {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<TokensMessage>) => {
+        if (event.data?.type === 'tokens' && event.data.scope === this.scope) {
+          this.options.onRemoteTokens(event.data.tokens);
+        }
+      };
+    }
+
+    // Background tabs throttle timers, so re-check as soon as we are visible again
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible' && this.isDue()) {
+        this.fire();
+      }
+    });
+  }
+
+  // Switch to another account's session. Locks and broadcasts are per account.
+  setScope(scope: string): void {
+    this.scope = scope;
+  }
+
+  // Arm the timer for a token expiring at `expiresAt` (epoch milliseconds)
+  schedule(expiresAt: number | null): void {
+    this.cancel();
+    this.expiresAt = expiresAt;
+    if (expiresAt === null) return;
+
+    const delay = Math.max(0, expiresAt - REFRESH_LEAD_MS - Date.now());
+    this.timeoutId = setTimeout(() => this.fire(), delay);
+  }
+
+  cancel(): void {
+    if (this.timeoutId !== null) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+    this.expiresAt = null;
+  }
+
+  // Run a refresh while holding the cross-tab lock. Callers should check,
+  // inside `task`, whether another tab already refreshed while they waited.
+  async runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    if (!navigator.locks) {
+      return task();
+    }
+    return navigator.locks.request(`${LOCK_NAME}:${this.scope}`, task);
+  }
+
+  // Share freshly refreshed tokens with the other open tabs
+  broadcast(tokens: StoredTokens): void {
+    const message: TokensMessage = { type: 'tokens', scope: this.scope, tokens };
+    this.channel?.postMessage(message);
+  }
+
+  private isDue(): boolean {
+    return this.expiresAt !== null && Date.now() >= this.expiresAt - REFRESH_LEAD_MS;
+  }
+
+  private async fire(): Promise<void> {
+    this.cancel();
+    console.log('Refreshing Spotify access token ahead of expiry');
+    const refreshed = await this.options.refresh();
+    if (!refreshed) {
+      console.warn('Scheduled token refresh failed');
+    }
+  }
+}
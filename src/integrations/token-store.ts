@@ -0,0 +1,238 @@
+import { IdbKeyValueStore } from '../lib/idb-store';
+
+// Where SpotifyService keeps its OAuth tokens between page loads. Select the
+// backend with VITE_SPOTIFY_TOKEN_STORAGE
+// (encrypted | memory | session | local | indexeddb).
+// Each signed-in account gets its own store, namespaced by Spotify user ID.
+
+export interface StoredTokens {
+  // Null when the store only persisted the refresh token
+  accessToken: string | null;
+  refreshToken: string | null;
+  // Epoch milliseconds at which the access token expires
+  expiresAt: number | null;
+}
+
+export interface TokenStore {
+  load(): Promise<StoredTokens | null>;
+  save(tokens: StoredTokens): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Tokens live only as long as the page; a reload signs the user out
+export class MemoryTokenStore implements TokenStore {
+  private tokens: StoredTokens | null = null;
+
+  async load(): Promise<StoredTokens | null> {
+    return this.tokens;
+  }
+
+  async save(tokens: StoredTokens): Promise<void> {
+    this.tokens = { ...tokens };
+  }
+
+  async clear(): Promise<void> {
+    this.tokens = null;
+  }
+}
+
+// Backed by localStorage or sessionStorage. Without an account the keys are
+// the ones the app has always used (spotify_access_token etc.).
+export class WebStorageTokenStore implements TokenStore {
+  private readonly prefix: string;
+
+  constructor(private readonly storage: Storage, accountId: string | null = null) {
+    this.prefix = accountId ? `spotify_${accountId}` : 'spotify';
+  }
+
+  async load(): Promise<StoredTokens | null> {
+    const accessToken = this.storage.getItem(`${this.prefix}_access_token`);
+    const expiresAt = this.storage.getItem(`${this.prefix}_token_expiration`);
+    if (!accessToken || !expiresAt) return null;
+
+    return {
+      accessToken,
+      refreshToken: this.storage.getItem(`${this.prefix}_refresh_token`),
+      expiresAt: parseInt(expiresAt, 10)
+    };
+  }
+
+  async save(tokens: StoredTokens): Promise<void> {
+    if (!tokens.accessToken || !tokens.expiresAt) {
+      await this.clear();
+      return;
+    }
+    this.storage.setItem(`${this.prefix}_access_token`, tokens.accessToken);
+    this.storage.setItem(`${this.prefix}_token_expiration`, tokens.expiresAt.toString());
+    if (tokens.refreshToken) {
+      this.storage.setItem(`${this.prefix}_refresh_token`, tokens.refreshToken);
+    } else {
+      this.storage.removeItem(`${this.prefix}_refresh_token`);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.storage.removeItem(`${this.prefix}_access_token`);
+    this.storage.removeItem(`${this.prefix}_token_expiration`);
+    this.storage.removeItem(`${this.prefix}_refresh_token`);
+  }
+}
+
+function scopedKey(key: string, accountId: string | null): string {
+  return accountId ? `${key}:${accountId}` : key;
+}
+
+export class IndexedDbTokenStore implements TokenStore {
+  private readonly key: string;
+
+  constructor(
+    accountId: string | null = null,
+    private readonly db: IdbKeyValueStore = new IdbKeyValueStore('vinyl-player', 'tokens')
+  ) {
+    this.key = scopedKey('spotify_tokens', accountId);
+  }
+
+  async load(): Promise<StoredTokens | null> {
+    return (await this.db.get<StoredTokens>(this.key)) ?? null;
+  }
+
+  async save(tokens: StoredTokens): Promise<void> {
+    await this.db.set(this.key, tokens);
+  }
+
+  async clear(): Promise<void> {
+    await this.db.delete(this.key);
+  }
+}
+
+const ENCRYPTION_KEY_ID = 'refresh_token_key';
+const REFRESH_TOKEN_ID = 'encrypted_refresh_token';
+
+interface EncryptedRefreshToken {
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer;
+}
+
+// Keeps the access token in memory only and encrypts the refresh token with an
+// AES-GCM key generated as non-extractable. The CryptoKey object is persisted
+// in IndexedDB, but its raw bytes can never be read back out by script, so
+// copying the stored ciphertext off this browser yields nothing usable.
+// After a reload only the refresh token is returned; SpotifyService then
+// trades it for a fresh access token.
+export class EncryptedTokenStore implements TokenStore {
+  private accessToken: string | null = null;
+  private expiresAt: number | null = null;
+  private keyPromise: Promise<CryptoKey> | null = null;
+  private readonly recordId: string;
+  // Plain-text tokens written by earlier versions, migrated on first load
+  private readonly legacyStore: TokenStore | null;
+
+  constructor(
+    accountId: string | null = null,
+    private readonly db: IdbKeyValueStore = new IdbKeyValueStore('vinyl-player', 'tokens')
+  ) {
+    this.recordId = scopedKey(REFRESH_TOKEN_ID, accountId);
+    this.legacyStore = accountId ? null : new WebStorageTokenStore(localStorage);
+  }
+
+  private getKey(): Promise<CryptoKey> {
+    if (!this.keyPromise) {
+      this.keyPromise = (async () => {
+        const existing = await this.db.get<CryptoKey>(ENCRYPTION_KEY_ID);
+        if (existing) return existing;
+
+        const key = await crypto.subtle.generateKey(
+          { name: 'AES-GCM', length: 256 },
+          false, // non-extractable
+          ['encrypt', 'decrypt']
+        );
+        await this.db.set(ENCRYPTION_KEY_ID, key);
+        return key;
+      })();
+      this.keyPromise.catch(() => {
+        this.keyPromise = null;
+      });
+    }
+    return this.keyPromise;
+  }
+
+  async load(): Promise<StoredTokens | null> {
+    const record = await this.db.get<EncryptedRefreshToken>(this.recordId);
+    if (!record) {
+      return this.migrateLegacyTokens();
+    }
+
+    let refreshToken: string;
+    try {
+      const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: new Uint8Array(record.iv) }, await this.getKey(), record.ciphertext);
+      refreshToken = new TextDecoder().decode(plaintext);
+    } catch {
+      // The key was lost or the record tampered with; start a fresh session
+      console.warn('Stored Spotify session could not be decrypted, signing out');
+      await this.clear();
+      return null;
+    }
+
+    return {
+      accessToken: this.accessToken,
+      refreshToken,
+      expiresAt: this.accessToken ? this.expiresAt : null
+    };
+  }
+
+  async save(tokens: StoredTokens): Promise<void> {
+    this.accessToken = tokens.accessToken;
+    this.expiresAt = tokens.expiresAt;
+
+    if (!tokens.refreshToken) {
+      await this.db.delete(this.recordId);
+      return;
+    }
+
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await this.getKey(),
+      new TextEncoder().encode(tokens.refreshToken)
+    );
+    const record: EncryptedRefreshToken = { iv, ciphertext };
+    await this.db.set(this.recordId, record);
+  }
+
+  async clear(): Promise<void> {
+    this.accessToken = null;
+    this.expiresAt = null;
+    await this.db.delete(this.recordId);
+  }
+
+  private async migrateLegacyTokens(): Promise<StoredTokens | null> {
+    const legacy = await this.legacyStore?.load();
+    if (!legacy) return null;
+
+    await this.save(legacy);
+    await this.legacyStore?.clear();
+    return legacy;
+  }
+}
+
+// `accountId` is null for the session of a login that has not been matched
+// to a Spotify user yet, and for sessions saved before multi-account support
+export function createTokenStore(kind: string | undefined, accountId: string | null = null): TokenStore {
+  switch (kind) {
+    case 'encrypted':
+    case undefined:
+    case '':
+      return new EncryptedTokenStore(accountId);
+    case 'memory':
+      return new MemoryTokenStore();
+    case 'session':
+      return new WebStorageTokenStore(sessionStorage, accountId);
+    case 'indexeddb':
+      return new IndexedDbTokenStore(accountId);
+    case 'local':
+      return new WebStorageTokenStore(localStorage, accountId);
+    default:
+      console.warn(`Unknown token storage "${kind}", falling back to encrypted storage`);
+      return new EncryptedTokenStore(accountId);
+  }
+}
@@ -0,0 +1,50 @@
+// Minimal promise-based key/value wrapper around a single IndexedDB object store
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class IdbKeyValueStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly dbName: string,
+    private readonly storeName: string
+  ) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(this.storeName);
+      };
+      this.dbPromise = promisify(request);
+      // Allow a later call to retry if opening failed (e.g. private browsing)
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    const store = db.transaction(this.storeName, mode).objectStore(this.storeName);
+    return promisify(operation(store));
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.run('readonly', store => store.get(key));
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    await this.run('readwrite', store => store.put(value, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+}
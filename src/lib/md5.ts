@@ -0,0 +1,65 @@
+// MD5 of a string's UTF-8 bytes, as lowercase hex. Web Crypto has no MD5, and
+// Subsonic's token auth needs it. Not for anything security sensitive.
+
+// Per-round left rotations
+const SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21
+];
+
+// floor(abs(sin(i + 1)) * 2^32)
+const CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0);
+
+function padded(input: string): DataView {
+  const bytes = new TextEncoder().encode(input);
+  // The message, a 1 bit, zeros, then the bit length in the last 8 bytes
+  const length = Math.ceil((bytes.length + 9) / 64) * 64;
+  const buffer = new Uint8Array(length);
+  buffer.set(bytes);
+  buffer[bytes.length] = 0x80;
+  const view = new DataView(buffer.buffer);
+  view.setUint32(length - 8, (bytes.length * 8) >>> 0, true);
+  view.setUint32(length - 4, Math.floor(bytes.length / 0x20000000), true);
+  return view;
+}
+
+export function md5(input: string): string {
+  const view = padded(input);
+  const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+
+  for (let chunk = 0; chunk < view.byteLength; chunk += 64) {
+    let [a, b, c, d] = state;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const sum = (a + f + CONSTANTS[i] + view.getUint32(chunk + g * 4, true)) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << SHIFTS[i]) | (sum >>> (32 - SHIFTS[i])))) | 0;
+    }
+    state[0] = (state[0] + a) | 0;
+    state[1] = (state[1] + b) | 0;
+    state[2] = (state[2] + c) | 0;
+    state[3] = (state[3] + d) | 0;
+  }
+
+  const digest = new DataView(new ArrayBuffer(16));
+  state.forEach((word, index) => digest.setUint32(index * 4, word, true));
+  return Array.from(new Uint8Array(digest.buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,42 @@
+// Queries the user searched for recently, newest first, kept in localStorage
+// so they survive a reload
+
+const RECENT_SEARCHES_KEY = 'vinyl_recent_searches';
+const MAX_RECENT_SEARCHES = 8;
+
+export class RecentSearches {
+  constructor(private readonly storage: Storage = localStorage) {}
+
+  list(): string[] {
+    try {
+      const stored = this.storage.getItem(RECENT_SEARCHES_KEY);
+      return stored ? (JSON.parse(stored) as string[]) : [];
+    } catch (error) {
+      console.error('Error reading recent searches:', error);
+      return [];
+    }
+  }
+
+  // Move the query to the front, dropping duplicates (ignoring case)
+  add(query: string): string[] {
+    const trimmed = query.trim();
+    if (!trimmed) return this.list();
+
+    const searches = [
+      trimmed,
+      ...this.list().filter(existing => existing.toLowerCase() !== trimmed.toLowerCase())
+    ].slice(0, MAX_RECENT_SEARCHES);
+    this.storage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(searches));
+    return searches;
+  }
+
+  remove(query: string): string[] {
+    const searches = this.list().filter(existing => existing !== query);
+    this.storage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(searches));
+    return searches;
+  }
+
+  clear(): void {
+    this.storage.removeItem(RECENT_SEARCHES_KEY);
+  }
+}
@@ -0,0 +1,36 @@
+// Minimal event emitter keyed by an event map, e.g.
+// `TypedEmitter<{ ready: { deviceId: string } }>`. Each subscription returns
+// its own unsubscribe function, which suits React effect cleanups.
+
+type Listener<T> = (payload: T) => void;
+
+export class TypedEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const set = this.listeners.get(event) as Set<Listener<Events[K]>> | undefined;
+    if (!set) return;
+
+    // Copy first so listeners can unsubscribe while being notified
+    for (const listener of [...set]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        // One broken subscriber must not starve the others
+        console.error(`Error in "${String(event)}" listener:`, error);
+      }
+    }
+  }
+}
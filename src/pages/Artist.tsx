@@ -0,0 +1,252 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, Navigate, useParams } from "react-router-dom";
+import { ArrowLeft, Loader2, Play, User } from "lucide-react";
+import RecordPlayer from "../components/RecordPlayer";
+import { RecordRow } from "../components/RecordRow";
+import { Badge } from "../components/ui/badge";
+import { spotifyService, type CuedRecord } from "../integrations/spotify";
+import {
+  pickImageUrl,
+  type ArtistAlbumGroup,
+  type SpotifyArtist,
+  type SpotifyArtistAlbum,
+  type SpotifyTrack
+} from "../integrations/spotify-models";
+import { usePagedCollection } from "../hooks/use-paged-collection";
+import { useRecordActions } from "../hooks/use-record-actions";
+
+const DISCOGRAPHY_GROUPS: ArtistAlbumGroup[] = ["album", "single", "compilation"];
+
+const GROUP_LABELS: Record<ArtistAlbumGroup, string> = {
+  album: "Albums",
+  single: "Singles & EPs",
+  compilation: "Compilations"
+};
+
+const followerFormat = new Intl.NumberFormat(undefined, { notation: "compact" });
+
+function trackRecord(track: SpotifyTrack): CuedRecord {
+  return {
+    uri: track.uri,
+    // Keep playing the rest of the album after the hit
+    contextUri: track.album.uri ?? undefined,
+    name: track.name,
+    subtitle: track.album.name,
+    imageUrl: pickImageUrl(track.album.images, 64)
+  };
+}
+
+function albumRecord(album: SpotifyArtistAlbum): CuedRecord {
+  return {
+    uri: album.uri,
+    name: album.name,
+    subtitle: `${album.release_date.slice(0, 4)} · ${album.total_tracks} ${album.total_tracks === 1 ? "track" : "tracks"}`,
+    imageUrl: pickImageUrl(album.images, 64)
+  };
+}
+
+interface DiscographySectionProps {
+  artistId: string;
+  group: ArtistAlbumGroup;
+  onPlay: (record: CuedRecord) => void;
+  onCue: (record: CuedRecord) => void;
+}
+
+// One kind of release, a page at a time. Hidden when the artist has none.
+function DiscographySection({ artistId, group, onPlay, onCue }: DiscographySectionProps) {
+  const createPages = useCallback(
+    (signal: AbortSignal) => spotifyService.iterateArtistAlbums(artistId, group, signal),
+    [artistId, group]
+  );
+  const releases = usePagedCollection(createPages, true, `${artistId}:${group}`);
+
+  if (releases.total === 0) return null;
+
+  return (
+    <section className="mt-8">
+      <h2 className="font-playfair text-2xl text-brass">{GROUP_LABELS[group]}</h2>
+      {releases.error && (
+        <p className="py-2 text-sm text-red-500" role="alert">Could not load {GROUP_LABELS[group].toLowerCase()}.</p>
+      )}
+      <ul className="mt-2">
+        {releases.items.map(album => (
+          <RecordRow key={album.id} record={albumRecord(album)} onPlay={onPlay} onCue={onCue} />
+        ))}
+      </ul>
+      {releases.isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-brass" aria-label={`Loading ${GROUP_LABELS[group].toLowerCase()}`} />
+        </div>
+      ) : releases.hasMore && !releases.error && (
+        <button onClick={releases.loadMore} className="mt-2 text-sm text-brass-dark hover:text-brass">
+          Show more
+        </button>
+      )}
+    </section>
+  );
+}
+
+const Artist = () => {
+  const { id = "" } = useParams<{ id: string }>();
+  const { play, cue } = useRecordActions();
+  const [isAuthChecked, setIsAuthChecked] = useState(false);
+  const [artist, setArtist] = useState<SpotifyArtist | null>(null);
+  const [topTracks, setTopTracks] = useState<SpotifyTrack[]>([]);
+  const [relatedArtists, setRelatedArtists] = useState<SpotifyArtist[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Tokens may come from an asynchronous store, wait for them first
+  useEffect(() => {
+    spotifyService.whenReady().then(() => setIsAuthChecked(true));
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthChecked || !spotifyService.isLoggedIn()) return;
+
+    const controller = new AbortController();
+    setArtist(null);
+    setTopTracks([]);
+    setRelatedArtists([]);
+    setError(null);
+
+    Promise.all([
+      spotifyService.getArtist(id, controller.signal),
+      spotifyService.getArtistTopTracks(id, controller.signal)
+    ])
+      .then(([details, tracks]) => {
+        if (controller.signal.aborted) return;
+        setArtist(details);
+        setTopTracks(tracks);
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error("Error loading artist:", err);
+        setError("Could not load this artist. Please try again.");
+      });
+
+    // Optional extra; leave the section out if Spotify will not provide it
+    spotifyService.getRelatedArtists(id, controller.signal)
+      .then(artists => {
+        if (!controller.signal.aborted) setRelatedArtists(artists);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) console.warn("Related artists unavailable:", err);
+      });
+
+    return () => controller.abort();
+  }, [id, isAuthChecked]);
+
+  if (isAuthChecked && !spotifyService.isLoggedIn()) {
+    return <Navigate to="/" replace />;
+  }
+
+  const imageUrl = pickImageUrl(artist?.images, 300);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-wood-dark/90 to-wood-dark flex items-start justify-center p-6">
+      <div className="w-full max-w-4xl animate-fade-in">
+        <Link to="/" className="inline-flex items-center gap-2 text-sm text-brass-dark hover:text-brass">
+          <ArrowLeft className="h-4 w-4" aria-hidden="true" />
+          Back to your collection
+        </Link>
+
+        <div className="mt-6 grid grid-cols-1 gap-8">
+          <RecordPlayer />
+
+          <div className="bg-wood-light/10 backdrop-blur-sm rounded-lg p-6 min-h-[200px]">
+            {error && <p className="text-red-500" role="alert">{error}</p>}
+
+            {!artist && !error && (
+              <div className="flex justify-center py-10">
+                <Loader2 className="h-8 w-8 animate-spin text-brass" aria-label="Loading artist" />
+              </div>
+            )}
+
+            {artist && (
+              <>
+                <header className="flex flex-col items-center gap-6 text-center sm:flex-row sm:text-left">
+                  {imageUrl ? (
+                    <img src={imageUrl} alt="" className="h-40 w-40 shrink-0 rounded-full object-cover shadow-lg" />
+                  ) : (
+                    <div className="flex h-40 w-40 shrink-0 items-center justify-center rounded-full bg-wood-light/30">
+                      <User className="h-16 w-16 text-brass-dark" aria-hidden="true" />
+                    </div>
+                  )}
+                  <div className="min-w-0">
+                    <h1 className="font-playfair text-4xl text-brass">{artist.name}</h1>
+                    <p className="mt-1 text-sm text-brass-dark">
+                      {followerFormat.format(artist.followers.total)} followers
+                    </p>
+                    {artist.genres.length > 0 && (
+                      <div className="mt-3 flex flex-wrap justify-center gap-2 sm:justify-start">
+                        {artist.genres.map(genre => (
+                          <Badge key={genre} variant="outline" className="border-brass/40 text-brass-dark">
+                            {genre}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    <button
+                      onClick={() => play({ uri: artist.uri, name: artist.name, subtitle: "Artist", imageUrl })}
+                      className="mt-4 inline-flex items-center gap-2 rounded-full bg-brass px-4 py-2 text-sm font-semibold text-wood-dark hover:bg-brass-light"
+                    >
+                      <Play className="h-4 w-4" aria-hidden="true" />
+                      Play artist
+                    </button>
+                  </div>
+                </header>
+
+                {topTracks.length > 0 && (
+                  <section className="mt-8">
+                    <h2 className="font-playfair text-2xl text-brass">Top tracks</h2>
+                    <ul className="mt-2">
+                      {topTracks.map(track => (
+                        <RecordRow key={track.uri} record={trackRecord(track)} queueable onPlay={play} onCue={cue} />
+                      ))}
+                    </ul>
+                  </section>
+                )}
+
+                {DISCOGRAPHY_GROUPS.map(group => (
+                  <DiscographySection key={group} artistId={id} group={group} onPlay={play} onCue={cue} />
+                ))}
+
+                {relatedArtists.length > 0 && (
+                  <section className="mt-8">
+                    <h2 className="font-playfair text-2xl text-brass">Fans also like</h2>
+                    <ul className="mt-4 grid grid-cols-3 gap-4 sm:grid-cols-4 md:grid-cols-6">
+                      {relatedArtists.map(related => {
+                        const relatedImageUrl = pickImageUrl(related.images, 160);
+                        return (
+                          <li key={related.id}>
+                            <Link to={`/artist/${related.id}`} className="group block text-center">
+                              {relatedImageUrl ? (
+                                <img
+                                  src={relatedImageUrl}
+                                  alt=""
+                                  loading="lazy"
+                                  className="aspect-square w-full rounded-full object-cover shadow transition-transform group-hover:scale-105"
+                                />
+                              ) : (
+                                <div className="flex aspect-square w-full items-center justify-center rounded-full bg-wood-light/30">
+                                  <User className="h-8 w-8 text-brass-dark" aria-hidden="true" />
+                                </div>
+                              )}
+                              <p className="mt-2 truncate text-sm text-brass group-hover:underline">{related.name}</p>
+                            </Link>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </section>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Artist;
@@ -1,10 +1,12 @@
-import { useState } from "react";
 import RecordPlayer from "../components/RecordPlayer";
 import { SpotifyPlayer } from "../components/SpotifyPlayer";
+import { MusicSourcePicker } from "../components/MusicSourcePicker";
+import { LocalFilesPanel } from "../components/LocalFilesPanel";
+import { SubsonicPanel } from "../components/SubsonicPanel";
+import { useMusicSource } from "../hooks/use-music-source";
 
 const Index = () => {
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [currentTrack, setCurrentTrack] = useState<{ name: string; artist: string } | undefined>();
+  const source = useMusicSource();
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-wood-dark/90 to-wood-dark flex items-center justify-center p-6">
@@ -13,13 +15,26 @@ const Index = () => {
           Vintage Record Player
         </h1>
         <div className="grid grid-cols-1 gap-8">
-          <RecordPlayer isPlaying={isPlaying} currentTrack={currentTrack} />
-          <div className="bg-wood-light/10 backdrop-blur-sm rounded-lg p-6 min-h-[200px]">
-            <SpotifyPlayer 
-              onPlaybackStateChange={setIsPlaying}
-              onTrackChange={(name, artist) => setCurrentTrack({ name, artist })}
-            />
+          <MusicSourcePicker />
+          <RecordPlayer />
+          {/* Kept mounted while another source plays: it finishes Spotify sign-in
+              when the login redirect comes back */}
+          <div
+            className="bg-wood-light/10 backdrop-blur-sm rounded-lg p-6 min-h-[200px]"
+            hidden={source.id !== "spotify"}
+          >
+            <SpotifyPlayer />
           </div>
+          {source.id === "local" && (
+            <div className="bg-wood-light/10 backdrop-blur-sm rounded-lg p-6 min-h-[200px]">
+              <LocalFilesPanel />
+            </div>
+          )}
+          {source.id === "subsonic" && (
+            <div className="bg-wood-light/10 backdrop-blur-sm rounded-lg p-6 min-h-[200px]">
+              <SubsonicPanel />
+            </div>
+          )}
         </div>
       </div>
     </div>
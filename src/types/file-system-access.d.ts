@@ -0,0 +1,16 @@
+// The parts of the File System Access API used to open a music folder. The
+// picker is Chromium-only, and directory iteration lives in the DOM.AsyncIterable
+// lib, which this project does not include.
+
+interface FileSystemDirectoryHandle {
+  values(): AsyncIterableIterator<FileSystemDirectoryHandle | FileSystemFileHandle>;
+}
+
+interface DirectoryPickerOptions {
+  id?: string;
+  mode?: 'read' | 'readwrite';
+}
+
+interface Window {
+  showDirectoryPicker?(options?: DirectoryPickerOptions): Promise<FileSystemDirectoryHandle>;
+}
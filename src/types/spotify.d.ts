@@ -23,12 +23,19 @@ declare namespace Spotify {
       seeking: boolean;
       skipping_next: boolean;
       skipping_prev: boolean;
+      toggling_repeat_context: boolean;
+      toggling_repeat_track: boolean;
+      toggling_shuffle: boolean;
     };
     track_window: {
       current_track: {
+        // Null for local files
+        id: string | null;
         name: string;
         uri: string;
-        artists: Array<{ name: string }>;
+        type: 'track' | 'episode' | 'ad';
+        // For episodes, the show
+        artists: Array<{ name: string; uri: string }>;
       };
     };
     paused: boolean;
@@ -57,7 +64,7 @@ declare namespace Spotify {
     addListener(event: 'ready', callback: (event: ReadyEvent) => void): void;
     addListener(event: 'not_ready', callback: (event: NotReadyEvent) => void): void;
     addListener(event: 'player_state_changed', callback: (state: PlaybackState | null) => void): void;
-    addListener(event: 'initialization_error' | 'authentication_error' | 'account_error', callback: (event: ErrorEvent) => void): void;
+    addListener(event: 'initialization_error' | 'authentication_error' | 'account_error' | 'playback_error', callback: (event: ErrorEvent) => void): void;
     removeListener(event: string, callback?: Function): void;
     getCurrentState(): Promise<PlaybackState | null>;
     setVolume(volume: number): Promise<void>;